@@ -3,10 +3,13 @@ import "./src/federation/ScriptManager"; // Ensure ScriptManager init
 import { SafeAreaProvider } from "react-native-safe-area-context";
 import Toast from "react-native-toast-message";
 import { AuthProvider } from "./src/auth/AuthContext";
+import { AppLockProvider } from "./src/auth/AppLockContext";
 import { PermissionProvider } from "./src/permissions/PermissionContext";
 import { FeatureFlagProvider } from "./src/features/FeatureFlagContext";
 import { TenantProvider } from "./src/tenant/TenantContext";
 import { RegionProvider } from "./src/region/RegionContext";
+import { RemoteManifestProvider } from "./src/federation/RemoteManifestContext";
+import { PermissionConsentSheet } from "./src/permissions/PermissionConsentSheet";
 import { RootNavigator } from "./src/navigation/RootNavigator";
 
 export default function App() {
@@ -15,14 +18,19 @@ export default function App() {
       <RegionProvider>
         <TenantProvider>
           <FeatureFlagProvider>
-            <AuthProvider>
-              <PermissionProvider>
-                <RootNavigator />
-              </PermissionProvider>
-            </AuthProvider>
+            <RemoteManifestProvider>
+              <AuthProvider>
+                <PermissionProvider>
+                  <AppLockProvider>
+                    <RootNavigator />
+                  </AppLockProvider>
+                </PermissionProvider>
+              </AuthProvider>
+            </RemoteManifestProvider>
           </FeatureFlagProvider>
         </TenantProvider>
       </RegionProvider>
+      <PermissionConsentSheet />
       <Toast />
     </SafeAreaProvider>
   );
@@ -0,0 +1,115 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ScriptManager } from '@callstack/repack/client';
+import { BundleCache } from '../src/federation/BundleCache';
+import { REMOTES, setActiveRemotes } from '../src/federation/remotes.config';
+import type { RemoteConfig } from '../src/federation/remotes.config';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+jest.mock('@callstack/repack/client', () => ({
+  ScriptManager: {
+    shared: {
+      resolveScript: jest.fn(async (scriptId: string) => ({
+        locator: { url: `https://cdn.example/${scriptId}.container.js.bundle` },
+      })),
+      prefetchScript: jest.fn(async () => {}),
+      invalidateScripts: jest.fn(async () => {}),
+    },
+  },
+}));
+
+const MB = 1024 * 1024;
+
+const remote = (overrides: Partial<RemoteConfig> = {}): RemoteConfig => ({
+  dev: 'http://localhost:9000/{version}/app.container.js.bundle',
+  prod: 'https://cdn.example/{version}/app.container.js.bundle',
+  version: '1.0.0',
+  integrity: { publicKey: 'key' },
+  ...overrides,
+});
+
+describe('BundleCache', () => {
+  const invalidateScripts = ScriptManager.shared.invalidateScripts as jest.Mock;
+  let now = 0;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    // Every script is 20 MB
+    globalThis.fetch = jest.fn(async () => ({
+      headers: { get: () => String(20 * MB) },
+    })) as any;
+  });
+
+  beforeEach(async () => {
+    // Each cache starts from an empty persisted index
+    await AsyncStorage.clear();
+    now = 0;
+    invalidateScripts.mockClear();
+    setActiveRemotes({
+      AppA: remote(),
+      AppB: remote(),
+      AppC: remote(),
+    });
+  });
+
+  afterAll(() => {
+    setActiveRemotes(REMOTES);
+  });
+
+  const useAt = async (cache: BundleCache, appName: string, time: number) => {
+    now = time;
+    await cache.touch(appName);
+  };
+
+  test('evicts the least recently used Mini App once over the limit', async () => {
+    const cache = new BundleCache(50 * MB);
+
+    await useAt(cache, 'AppA', 1);
+    await useAt(cache, 'AppB', 2);
+    await useAt(cache, 'AppA', 3);
+    await useAt(cache, 'AppC', 4);
+
+    expect(cache.isCached('AppA')).toBe(true);
+    expect(cache.isCached('AppB')).toBe(false);
+    expect(cache.isCached('AppC')).toBe(true);
+    expect(invalidateScripts).toHaveBeenCalledWith(['AppB']);
+    expect(cache.getSize()).toBe(40 * MB);
+  });
+
+  test('never evicts the Mini App being opened', async () => {
+    const cache = new BundleCache(10 * MB);
+
+    await useAt(cache, 'AppA', 1);
+
+    expect(cache.isCached('AppA')).toBe(true);
+    expect(invalidateScripts).not.toHaveBeenCalled();
+  });
+
+  test('prefetched Mini Apps are evicted before opened ones', async () => {
+    const cache = new BundleCache(50 * MB);
+
+    await useAt(cache, 'AppA', 1);
+    await useAt(cache, 'AppB', 2);
+    await cache.prefetch(['AppC']);
+
+    expect(cache.isCached('AppA')).toBe(true);
+    expect(cache.isCached('AppB')).toBe(true);
+    expect(cache.isCached('AppC')).toBe(false);
+  });
+
+  test('a new version is no longer cached', async () => {
+    const cache = new BundleCache();
+    await useAt(cache, 'AppA', 1);
+
+    setActiveRemotes({ AppA: remote({ version: '1.1.0' }) });
+
+    expect(cache.isCached('AppA')).toBe(false);
+  });
+});
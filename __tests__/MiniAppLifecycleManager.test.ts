@@ -0,0 +1,53 @@
+/**
+ * @format
+ */
+
+import { MiniAppLifecycleManager } from '../src/federation/MiniAppLifecycleManager';
+
+describe('MiniAppLifecycleManager listeners', () => {
+  let manager: MiniAppLifecycleManager;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    manager = new MiniAppLifecycleManager();
+  });
+
+  const listenerCount = () => (manager as any).listeners.size;
+
+  test('unregistering an embedded instance drops its listeners', () => {
+    const unregister = manager.registerEmbeddedInstance('host/ChatApp:./App#:r1:', 'ChatApp');
+    const listener = jest.fn();
+    manager.addEventListener('host/ChatApp:./App#:r1:', 'accountSwitch', listener);
+
+    unregister();
+    manager.onAccountSwitch();
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(listenerCount()).toBe(0);
+  });
+
+  test('instances are forgotten once their last listener unsubscribes', () => {
+    const listener = jest.fn();
+    const unsubscribeSwitch = manager.addEventListener('MiniAppA', 'accountSwitch', listener);
+    const unsubscribeFocus = manager.addEventListener('MiniAppA', 'focus', listener);
+
+    unsubscribeSwitch();
+    expect(listenerCount()).toBe(1);
+
+    unsubscribeFocus();
+    expect(listenerCount()).toBe(0);
+  });
+
+  test('account switches still reach mounted instances', () => {
+    const listener = jest.fn();
+    manager.registerEmbeddedInstance('host/ChatApp:./App#support', 'ChatApp');
+    manager.addEventListener('host/ChatApp:./App#support', 'accountSwitch', listener);
+
+    manager.onAccountSwitch();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
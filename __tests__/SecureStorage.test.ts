@@ -0,0 +1,56 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SecureStorage } from '../src/auth/SecureStorage';
+import { NativeAuthModule } from '../src/auth/NativeAuthModule';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const LEGACY_KEYS = ['@saved_email', '@saved_password', '@remember_me'];
+
+describe('SecureStorage.migrateLegacyCredentials', () => {
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await AsyncStorage.clear();
+    await AsyncStorage.multiSet([
+      ['@saved_email', 'user@example.com'],
+      ['@saved_password', 'c2VjcmV0'],
+      ['@remember_me', 'true'],
+    ]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('moves the email to Keychain and deletes the legacy keys', async () => {
+    const saveRememberedEmail = jest
+      .spyOn(NativeAuthModule, 'saveRememberedEmail')
+      .mockResolvedValue();
+
+    await SecureStorage.migrateLegacyCredentials();
+
+    expect(saveRememberedEmail).toHaveBeenCalledWith('user@example.com');
+    expect(await AsyncStorage.multiGet(LEGACY_KEYS)).toEqual(
+      LEGACY_KEYS.map(key => [key, null]),
+    );
+  });
+
+  test('deletes the legacy keys when the email cannot be moved', async () => {
+    jest
+      .spyOn(NativeAuthModule, 'saveRememberedEmail')
+      .mockRejectedValue(new Error('AuthModule not available'));
+
+    await expect(SecureStorage.migrateLegacyCredentials()).resolves.toBeUndefined();
+
+    expect(await AsyncStorage.multiGet(LEGACY_KEYS)).toEqual(
+      LEGACY_KEYS.map(key => [key, null]),
+    );
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * @format
+ */
+
+import { ApiClient } from '../src/host-sdk/api';
+
+const jsonResponse = (status: number, body: object = {}) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: { get: () => 'application/json' },
+  text: async () => JSON.stringify(body),
+});
+
+const authorizationOf = (call: any[]) => call[1].headers.Authorization;
+
+describe('ApiClient 401 handling', () => {
+  const fetchMock = jest.fn();
+  let client: ApiClient;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    globalThis.fetch = fetchMock as any;
+    client = new ApiClient('https://api.example', 'old-token');
+  });
+
+  test('concurrent 401s share one refresh and replay with the new token', async () => {
+    fetchMock.mockImplementation(async (_url, init) =>
+      init.headers.Authorization === 'Bearer new-token'
+        ? jsonResponse(200, { ok: true })
+        : jsonResponse(401, { code: 'TOKEN_EXPIRED' }),
+    );
+    const refreshHandler = jest.fn(async () => 'new-token');
+    client.setRefreshHandler(refreshHandler);
+
+    const responses = await Promise.all([
+      client.get('/a'),
+      client.get('/b'),
+      client.extend().get('/c'),
+    ]);
+
+    expect(refreshHandler).toHaveBeenCalledTimes(1);
+    expect(responses.map(response => response.status)).toEqual([200, 200, 200]);
+    expect(client.getToken()).toBe('new-token');
+  });
+
+  test('requests made during a refresh wait and go out with the new token', async () => {
+    let finishRefresh: (token: string) => void = () => {};
+    client.setRefreshHandler(
+      () => new Promise(resolve => { finishRefresh = resolve; }),
+    );
+    fetchMock.mockResolvedValue(jsonResponse(200));
+
+    const refresh = client.refreshToken();
+    const request = client.get('/a');
+    finishRefresh('new-token');
+    await Promise.all([refresh, request]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(authorizationOf(fetchMock.mock.calls[0])).toBe('Bearer new-token');
+  });
+
+  test('a failed refresh keeps the 401 and does not retry', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(401, { code: 'TOKEN_EXPIRED' }));
+    client.setRefreshHandler(async () => {
+      throw new Error('refresh token rejected');
+    });
+
+    const response = await client.get('/a');
+
+    expect(response.success).toBe(false);
+    expect(response.status).toBe(401);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(client.getToken()).toBe('old-token');
+  });
+
+  test('SESSION_REVOKED ends the session once and never refreshes', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(401, { code: 'SESSION_REVOKED' }));
+    const refreshHandler = jest.fn(async () => 'new-token');
+    const sessionRevokedHandler = jest.fn(async () => {});
+    client.setRefreshHandler(refreshHandler);
+    client.setSessionRevokedHandler(sessionRevokedHandler);
+
+    const responses = await Promise.all([client.get('/a'), client.get('/b')]);
+
+    expect(sessionRevokedHandler).toHaveBeenCalledTimes(1);
+    expect(refreshHandler).not.toHaveBeenCalled();
+    expect(responses.map(response => response.errorCode)).toEqual([
+      'SESSION_REVOKED',
+      'SESSION_REVOKED',
+    ]);
+  });
+
+  test('unauthenticated 401s are returned as they are', async () => {
+    client.setToken('');
+    fetchMock.mockResolvedValue(jsonResponse(401));
+    const refreshHandler = jest.fn(async () => 'new-token');
+    client.setRefreshHandler(refreshHandler);
+
+    const response = await client.get('/a');
+
+    expect(response.status).toBe(401);
+    expect(refreshHandler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * @format
+ */
+
+import { createScopedSdk, getApiScope } from '../src/host-sdk/scoped';
+import { HostSdkErrorCode } from '../src/host-sdk/errors';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+describe('getApiScope', () => {
+  test('uses the first path segment', () => {
+    expect(getApiScope('/chat/rooms')).toBe('api:chat');
+    expect(getApiScope('chat/rooms')).toBe('api:chat');
+    expect(getApiScope('/orders?status=open')).toBe('api:orders');
+    expect(getApiScope('/orders#top')).toBe('api:orders');
+  });
+
+  test('rejects dot segments', () => {
+    expect(getApiScope('/chat/../user/account')).toBeNull();
+    expect(getApiScope('chat/../user/account')).toBeNull();
+    expect(getApiScope('/chat/./rooms')).toBeNull();
+    expect(getApiScope('/../user')).toBeNull();
+  });
+
+  test('rejects encoded separators and dots', () => {
+    expect(getApiScope('/chat%2F..%2Fuser/account')).toBeNull();
+    expect(getApiScope('/chat/%2e%2e/user')).toBeNull();
+    expect(getApiScope('/chat%5c..%5cuser')).toBeNull();
+    expect(getApiScope('/chat\\..\\user')).toBeNull();
+  });
+
+  test('rejects absolute and protocol-relative URLs', () => {
+    expect(getApiScope('https://evil.example/chat')).toBeNull();
+    expect(getApiScope('//evil.example/chat')).toBeNull();
+  });
+
+  test('rejects endpoints without a scope', () => {
+    expect(getApiScope('/')).toBeNull();
+    expect(getApiScope('')).toBeNull();
+  });
+
+  test('ignores dots in the query string', () => {
+    expect(getApiScope('/chat/search?q=../user')).toBe('api:chat');
+  });
+});
+
+describe('scoped api', () => {
+  const fetchMock = jest.fn();
+  const sdk = createScopedSdk('miniAppA', {
+    getCapabilities: () => ['api:chat'],
+    EmbeddedMiniApp: () => null,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset().mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: { get: () => 'application/json' },
+      text: async () => '{}',
+    });
+    globalThis.fetch = fetchMock;
+  });
+
+  test('calls endpoints in a declared scope', async () => {
+    await expect(sdk.api.get('/chat/rooms')).resolves.toMatchObject({ success: true });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('rejects endpoints outside the declared scopes', async () => {
+    await expect(sdk.api.get('/user/account')).rejects.toMatchObject({
+      code: HostSdkErrorCode.CAPABILITY_NOT_DECLARED,
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test('rejects traversal out of a declared scope', async () => {
+    await expect(sdk.api.delete('/chat/../user/account')).rejects.toMatchObject({
+      code: HostSdkErrorCode.INVALID_ENDPOINT,
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test('re-checks endpoints rewritten by an interceptor', async () => {
+    const remove = sdk.api.useRequestInterceptor(request => ({
+      ...request,
+      endpoint: '/chat/%2e%2e/user/account',
+    }));
+
+    await expect(sdk.api.get('/chat/rooms')).rejects.toMatchObject({
+      code: HostSdkErrorCode.INVALID_ENDPOINT,
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+    remove();
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @format
+ */
+
+import { createScopedSdk } from '../src/host-sdk/scoped';
+import { HostSdkErrorCode } from '../src/host-sdk/errors';
+import { navigation } from '../src/host-sdk/navigation';
+import { permissionBroker } from '../src/permissions/PermissionBroker';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+jest.mock('../src/host-sdk/navigation', () => ({
+  navigation: {
+    goBack: jest.fn(),
+    navigateToMiniApp: jest.fn(),
+    navigateToHost: jest.fn(),
+  },
+}));
+
+jest.mock('../src/permissions/PermissionBroker', () => ({
+  permissionBroker: {
+    request: jest.fn(async () => true),
+    check: jest.fn(async () => true),
+  },
+}));
+
+describe('scoped permissions and navigation', () => {
+  const sdk = createScopedSdk('miniAppA', {
+    getCapabilities: () => ['camera', 'navigate:miniAppB'],
+    EmbeddedMiniApp: () => null,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('asks for permissions whose capability is declared', async () => {
+    await expect(sdk.native.permissions.request('camera')).resolves.toBe(true);
+    await expect(sdk.native.permissions.check('camera')).resolves.toBe(true);
+    expect(permissionBroker.request).toHaveBeenCalledWith('miniAppA', 'camera');
+    expect(permissionBroker.check).toHaveBeenCalledWith('miniAppA', 'camera');
+  });
+
+  test('rejects permissions whose capability is not declared', async () => {
+    await expect(sdk.native.permissions.request('location')).rejects.toMatchObject({
+      code: HostSdkErrorCode.CAPABILITY_NOT_DECLARED,
+      capability: 'location',
+    });
+    await expect(sdk.native.permissions.check('contacts')).rejects.toMatchObject({
+      code: HostSdkErrorCode.CAPABILITY_NOT_DECLARED,
+    });
+    expect(permissionBroker.request).not.toHaveBeenCalled();
+    expect(permissionBroker.check).not.toHaveBeenCalled();
+  });
+
+  test('opens only declared Mini Apps', () => {
+    sdk.navigation.navigateToMiniApp('miniAppB', { id: 1 });
+    expect(navigation.navigateToMiniApp).toHaveBeenCalledWith('miniAppB', { id: 1 });
+
+    expect(() => sdk.navigation.navigateToMiniApp('miniAppC')).toThrow(
+      expect.objectContaining({
+        code: HostSdkErrorCode.CAPABILITY_NOT_DECLARED,
+        capability: 'navigate:miniAppC',
+      }),
+    );
+    expect(navigation.navigateToMiniApp).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * @format
+ */
+
+import {
+  assertSharedDependencies,
+  checkSharedDependencies,
+} from '../src/federation/sharedDependencies';
+import { REMOTES, setActiveRemotes } from '../src/federation/remotes.config';
+import { MiniAppErrorCode } from '../src/federation/errors';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const shareScope = {
+  react: { '19.1.0': {} },
+  'react-native': { '0.81.5': {} },
+};
+
+describe('checkSharedDependencies', () => {
+  test('accepts ranges the host satisfies', () => {
+    expect(
+      checkSharedDependencies(
+        { react: '^19.0.0', 'react-native': '~0.81.0' },
+        shareScope,
+      ),
+    ).toEqual([]);
+  });
+
+  test('refuses a different major', () => {
+    expect(checkSharedDependencies({ react: '^18.2.0' }, shareScope)).toEqual([
+      { name: 'react', required: '^18.2.0', provided: '19.1.0', severity: 'error' },
+    ]);
+  });
+
+  test('treats a different 0.x minor as breaking', () => {
+    expect(
+      checkSharedDependencies({ 'react-native': '^0.80.0' }, shareScope),
+    ).toEqual([
+      {
+        name: 'react-native',
+        required: '^0.80.0',
+        provided: '0.81.5',
+        severity: 'error',
+      },
+    ]);
+  });
+
+  test('only warns about an older host version in the same major', () => {
+    expect(checkSharedDependencies({ react: '^19.2.0' }, shareScope)).toEqual([
+      { name: 'react', required: '^19.2.0', provided: '19.1.0', severity: 'warning' },
+    ]);
+  });
+
+  test('only warns about dependencies the host does not share', () => {
+    expect(checkSharedDependencies({ lodash: '^4.17.0' }, shareScope)).toEqual([
+      { name: 'lodash', required: '^4.17.0', provided: null, severity: 'warning' },
+    ]);
+  });
+
+  test('ignores wildcard ranges', () => {
+    expect(checkSharedDependencies({ react: '*' }, shareScope)).toEqual([]);
+  });
+});
+
+describe('assertSharedDependencies', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setActiveRemotes(REMOTES);
+  });
+
+  const withShared = (shared?: Record<string, string>) => {
+    const [appName] = Object.keys(REMOTES);
+    setActiveRemotes({ ...REMOTES, [appName]: { ...REMOTES[appName], shared } });
+    return appName;
+  };
+
+  test('throws SHARED_DEPENDENCY_MISMATCH for incompatible remotes', () => {
+    const appName = withShared({ react: '^18.2.0' });
+
+    expect(() => assertSharedDependencies(appName, shareScope)).toThrow(
+      expect.objectContaining({
+        code: MiniAppErrorCode.SHARED_DEPENDENCY_MISMATCH,
+        appName,
+      }),
+    );
+  });
+
+  test('passes compatible remotes and ones without declared ranges', () => {
+    expect(() =>
+      assertSharedDependencies(withShared({ react: '^19.0.0' }), shareScope),
+    ).not.toThrow();
+    expect(() =>
+      assertSharedDependencies(withShared(undefined), shareScope),
+    ).not.toThrow();
+  });
+});
@@ -33,8 +33,44 @@ class AppDelegate: UIResponder, UIApplicationDelegate {
       launchOptions: launchOptions
     )
 
+    // Silent pushes need no user permission, only a device token the backend can send to
+    application.registerForRemoteNotifications()
+
     return true
   }
+
+  func application(
+    _ application: UIApplication,
+    didRegisterForRemoteNotificationsWithDeviceToken deviceToken: Data
+  ) {
+    AuthService.shared.setPushToken(deviceToken.map { String(format: "%02x", $0) }.joined())
+  }
+
+  func application(
+    _ application: UIApplication,
+    didFailToRegisterForRemoteNotificationsWithError error: Error
+  ) {
+    print("[AppDelegate] Failed to register for remote notifications: \(error)")
+  }
+
+  // Silent push sent by the backend when one of this device's sessions was revoked
+  func application(
+    _ application: UIApplication,
+    didReceiveRemoteNotification userInfo: [AnyHashable: Any],
+    fetchCompletionHandler completionHandler: @escaping (UIBackgroundFetchResult) -> Void
+  ) {
+    guard userInfo["type"] as? String == "session_revoked" else {
+      completionHandler(.noData)
+      return
+    }
+
+    NotificationCenter.default.post(
+      name: AuthService.sessionRevokedNotification,
+      object: nil,
+      userInfo: userInfo["uid"].map { ["uid": $0] }
+    )
+    completionHandler(.newData)
+  }
 }
 
 class ReactNativeDelegate: RCTDefaultReactNativeFactoryDelegate {
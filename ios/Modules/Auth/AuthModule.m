@@ -8,6 +8,14 @@
  */
 @interface RCT_EXTERN_MODULE(AuthModule, RCTEventEmitter)
 
+// Configuration
+RCT_EXTERN_METHOD(setApiBaseURL:(NSString *)baseURL
+                  resolver:(RCTPromiseResolveBlock)resolve
+                  rejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(getPushToken:(RCTPromiseResolveBlock)resolve
+                  rejecter:(RCTPromiseRejectBlock)reject)
+
 // Authentication methods
 RCT_EXTERN_METHOD(login:(NSString *)email
                   password:(NSString *)password
@@ -20,6 +28,13 @@ RCT_EXTERN_METHOD(signup:(NSString *)email
                   resolver:(RCTPromiseResolveBlock)resolve
                   rejecter:(RCTPromiseRejectBlock)reject)
 
+RCT_EXTERN_METHOD(loginWithProvider:(NSDictionary *)provider
+                  resolver:(RCTPromiseResolveBlock)resolve
+                  rejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(refreshSession:(RCTPromiseResolveBlock)resolve
+                  rejecter:(RCTPromiseRejectBlock)reject)
+
 RCT_EXTERN_METHOD(logout:(RCTPromiseResolveBlock)resolve
                   rejecter:(RCTPromiseRejectBlock)reject)
 
@@ -35,6 +50,37 @@ RCT_EXTERN_METHOD(loadAuthState:(RCTPromiseResolveBlock)resolve
 RCT_EXTERN_METHOD(clearAuthState:(RCTPromiseResolveBlock)resolve
                   rejecter:(RCTPromiseRejectBlock)reject)
 
+// Multiple accounts
+RCT_EXTERN_METHOD(getAccounts:(RCTPromiseResolveBlock)resolve
+                  rejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(switchAccount:(NSString *)uid
+                  resolver:(RCTPromiseResolveBlock)resolve
+                  rejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(removeAccount:(NSString *)uid
+                  resolver:(RCTPromiseResolveBlock)resolve
+                  rejecter:(RCTPromiseRejectBlock)reject)
+
+// Device owner authentication (biometrics / passcode)
+RCT_EXTERN_METHOD(getDeviceAuthType:(RCTPromiseResolveBlock)resolve
+                  rejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(authenticateDeviceOwner:(NSString *)reason
+                  resolver:(RCTPromiseResolveBlock)resolve
+                  rejecter:(RCTPromiseRejectBlock)reject)
+
+// Remember me (email only)
+RCT_EXTERN_METHOD(saveRememberedEmail:(NSString *)email
+                  resolver:(RCTPromiseResolveBlock)resolve
+                  rejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(getRememberedEmail:(RCTPromiseResolveBlock)resolve
+                  rejecter:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(clearRememberedEmail:(RCTPromiseResolveBlock)resolve
+                  rejecter:(RCTPromiseRejectBlock)reject)
+
 // Read-only methods for Mini Apps
 RCT_EXTERN_METHOD(getAuthState:(RCTPromiseResolveBlock)resolve
                   rejecter:(RCTPromiseRejectBlock)reject)
@@ -1,4 +1,5 @@
 import Foundation
+import LocalAuthentication
 import React
 
 @objc(AuthModule)
@@ -6,6 +7,27 @@ class AuthModule: RCTEventEmitter {
   
   private let tokenManager = SecureTokenManager.shared
   private let authService = AuthService.shared
+  private let oauthService = OAuthService.shared
+  
+  override init() {
+    super.init()
+    NotificationCenter.default.addObserver(
+      self,
+      selector: #selector(handleSessionRevoked(_:)),
+      name: AuthService.sessionRevokedNotification,
+      object: nil
+    )
+    NotificationCenter.default.addObserver(
+      self,
+      selector: #selector(handlePushToken(_:)),
+      name: AuthService.pushTokenNotification,
+      object: nil
+    )
+  }
+  
+  deinit {
+    NotificationCenter.default.removeObserver(self)
+  }
   
   // MARK: - RCTEventEmitter Override
   
@@ -14,7 +36,43 @@ class AuthModule: RCTEventEmitter {
   }
   
   override func supportedEvents() -> [String]! {
-    return ["auth_state_changed"]
+    return ["auth_state_changed", "push_token_changed"]
+  }
+  
+  // MARK: - Configuration
+  
+  /**
+   * Use the API base URL resolved in JS for the tenant and region
+   */
+  @objc
+  func setApiBaseURL(
+    _ baseURL: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    guard URL(string: baseURL)?.scheme == "https" else {
+      reject("INVALID_BASE_URL", "API base URL must be an https URL", nil)
+      return
+    }
+    authService.setApiBaseURL(baseURL)
+    resolve(nil)
+  }
+  
+  /**
+   * APNs token of this device, null until registration finished
+   */
+  @objc
+  func getPushToken(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    resolve(authService.pushToken ?? NSNull())
+  }
+  
+  @objc
+  private func handlePushToken(_ notification: Notification) {
+    guard let token = notification.userInfo?["token"] as? String else { return }
+    sendEvent(withName: "push_token_changed", body: ["token": token])
   }
   
   // MARK: - Authentication Methods
@@ -92,6 +150,78 @@ class AuthModule: RCTEventEmitter {
     }
   }
   
+  /**
+   * Sign in with an OpenID Connect identity provider (authorization code + PKCE)
+   * and create a Super App session from its ID token
+   */
+  @objc
+  func loginWithProvider(
+    _ provider: NSDictionary,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    Task {
+      do {
+        let config = try OAuthService.ProviderConfig(dictionary: provider as? [String: Any] ?? [:])
+        let tokens = try await oauthService.authorize(provider: config)
+        let userInfo = try await authService.loginWithIdentityProvider(
+          providerId: config.id,
+          idToken: tokens.idToken
+        )
+        
+        // Emit auth state changed event
+        await MainActor.run {
+          self.sendEvent(withName: "auth_state_changed", body: [
+            "isAuthenticated": true,
+            "userInfo": userInfo
+          ])
+        }
+        
+        resolve(userInfo)
+      } catch let oauthError as OAuthError {
+        reject(oauthError.errorCode, oauthError.errorDescription ?? "Sign-in failed", oauthError)
+      } catch let authError as AuthError {
+        let errorCode = authError.errorCode
+        let errorMessage = authError.errorDescription ?? "Sign-in failed"
+        reject(errorCode, errorMessage, authError)
+      } catch {
+        reject("OAUTH_ERROR", error.localizedDescription, error)
+      }
+    }
+  }
+  
+  /**
+   * Refresh the session using the refresh token stored in Keychain
+   */
+  @objc
+  func refreshSession(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    Task {
+      do {
+        let session = try await authService.refreshSession()
+        
+        // Emit auth state changed event so listeners pick up the new token
+        let userInfo = try? tokenManager.getUserInfo()
+        await MainActor.run {
+          self.sendEvent(withName: "auth_state_changed", body: [
+            "isAuthenticated": true,
+            "userInfo": userInfo.map { $0 as Any } ?? NSNull()
+          ])
+        }
+        
+        resolve(session)
+      } catch let authError as AuthError {
+        let errorCode = authError.errorCode
+        let errorMessage = authError.errorDescription ?? "Refresh failed"
+        reject(errorCode, errorMessage, authError)
+      } catch {
+        reject("REFRESH_ERROR", error.localizedDescription, error)
+      }
+    }
+  }
+  
   /**
    * Logout - clear all auth data
    */
@@ -115,6 +245,150 @@ class AuthModule: RCTEventEmitter {
     }
   }
   
+  /**
+   * Sign out a session revoked on the server and let JS tear down its state
+   */
+  @objc
+  private func handleSessionRevoked(_ notification: Notification) {
+    let uid = notification.userInfo?["uid"] as? String
+    
+    do {
+      let wasActive = try authService.revokeSession(uid: uid)
+      let userInfo = wasActive ? nil : try? tokenManager.getUserInfo()
+      
+      sendEvent(withName: "auth_state_changed", body: [
+        "isAuthenticated": userInfo != nil,
+        "userInfo": userInfo.map { $0 as Any } ?? NSNull(),
+        "reason": "SESSION_REVOKED"
+      ])
+    } catch {
+      print("[AuthModule] Failed to clear revoked session: \(error)")
+    }
+  }
+  
+  // MARK: - Multiple Accounts
+  
+  /**
+   * List the accounts signed in on this device, most recently used first
+   */
+  @objc
+  func getAccounts(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    do {
+      resolve(try tokenManager.getStoredAccounts())
+    } catch {
+      reject("LOAD_ERROR", "Failed to load accounts: \(error.localizedDescription)", error)
+    }
+  }
+  
+  /**
+   * Make another signed-in account the active session
+   * Resolves the new auth state (token, userInfo, timestamp)
+   */
+  @objc
+  func switchAccount(
+    _ uid: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    do {
+      let authState = try authService.switchAccount(uid: uid)
+      
+      // Emit auth state changed event
+      sendEvent(withName: "auth_state_changed", body: [
+        "isAuthenticated": true,
+        "userInfo": authState["userInfo"] ?? NSNull()
+      ])
+      
+      resolve(authState)
+    } catch let authError as AuthError {
+      reject(authError.errorCode, authError.errorDescription ?? "Switch account failed", authError)
+    } catch {
+      reject("SWITCH_ERROR", "Failed to switch account: \(error.localizedDescription)", error)
+    }
+  }
+  
+  /**
+   * Sign an account that is not active out of this device
+   */
+  @objc
+  func removeAccount(
+    _ uid: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    do {
+      try tokenManager.deleteStoredSession(uid: uid)
+      resolve(nil)
+    } catch {
+      reject("CLEAR_ERROR", "Failed to remove account: \(error.localizedDescription)", error)
+    }
+  }
+  
+  // MARK: - Device Owner Authentication
+  
+  /**
+   * Check if biometrics or a device passcode can be used to unlock
+   * Resolves the biometry type: "FaceID", "TouchID", "passcode" or "none"
+   */
+  @objc
+  func getDeviceAuthType(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    let context = LAContext()
+    var error: NSError?
+    
+    guard context.canEvaluatePolicy(.deviceOwnerAuthentication, error: &error) else {
+      resolve("none")
+      return
+    }
+    
+    switch context.biometryType {
+    case .faceID:
+      resolve("FaceID")
+    case .touchID:
+      resolve("TouchID")
+    default:
+      resolve("passcode")
+    }
+  }
+  
+  /**
+   * Ask for biometrics, falling back to the device passcode
+   * Resolves false when the user cancels
+   */
+  @objc
+  func authenticateDeviceOwner(
+    _ reason: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    let context = LAContext()
+    var error: NSError?
+    
+    guard context.canEvaluatePolicy(.deviceOwnerAuthentication, error: &error) else {
+      reject("DEVICE_AUTH_UNAVAILABLE", error?.localizedDescription ?? "Device authentication unavailable", error)
+      return
+    }
+    
+    context.evaluatePolicy(.deviceOwnerAuthentication, localizedReason: reason) { success, evaluateError in
+      if success {
+        resolve(true)
+        return
+      }
+      
+      switch (evaluateError as? LAError)?.code {
+      case .userCancel, .systemCancel, .appCancel, .userFallback:
+        resolve(false)
+      default:
+        reject("DEVICE_AUTH_FAILED", evaluateError?.localizedDescription ?? "Authentication failed", evaluateError)
+      }
+    }
+  }
+  
   // MARK: - Storage Methods (for backward compatibility)
   
   /**
@@ -135,6 +409,7 @@ class AuthModule: RCTEventEmitter {
       if let userDict = userInfo as? [String: Any] {
         try tokenManager.saveUserInfo(userDict)
       }
+      try tokenManager.storeActiveSession()
       
       // Emit auth state changed event
       sendEvent(withName: "auth_state_changed", body: [
@@ -178,7 +453,7 @@ class AuthModule: RCTEventEmitter {
   }
   
   /**
-   * Clear authentication state from Keychain
+   * Clear the active session from Keychain, other signed-in accounts are kept
    */
   @objc
   func clearAuthState(
@@ -186,7 +461,7 @@ class AuthModule: RCTEventEmitter {
     rejecter reject: @escaping RCTPromiseRejectBlock
   ) {
     do {
-      try tokenManager.clearAll()
+      try tokenManager.removeActiveSession()
       
       // Emit auth state changed event
       sendEvent(withName: "auth_state_changed", body: [
@@ -200,6 +475,58 @@ class AuthModule: RCTEventEmitter {
     }
   }
   
+  /**
+   * Save the email to prefill on the login screen
+   */
+  @objc
+  func saveRememberedEmail(
+    _ email: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    do {
+      try tokenManager.saveRememberedEmail(email)
+      resolve(nil)
+    } catch {
+      reject("SAVE_ERROR", "Failed to save remembered email: \(error.localizedDescription)", error)
+    }
+  }
+  
+  /**
+   * Get the remembered email, if any
+   */
+  @objc
+  func getRememberedEmail(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    do {
+      if let email = try tokenManager.getRememberedEmail() {
+        resolve(email)
+      } else {
+        resolve(NSNull())
+      }
+    } catch {
+      reject("LOAD_ERROR", "Failed to load remembered email: \(error.localizedDescription)", error)
+    }
+  }
+  
+  /**
+   * Forget the remembered email
+   */
+  @objc
+  func clearRememberedEmail(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    do {
+      try tokenManager.deleteRememberedEmail()
+      resolve(nil)
+    } catch {
+      reject("CLEAR_ERROR", "Failed to clear remembered email: \(error.localizedDescription)", error)
+    }
+  }
+  
   /**
    * Get current authentication state (for Mini Apps - read-only)
    */
@@ -11,10 +11,34 @@ class AuthService {
   // MARK: - Singleton
   static let shared = AuthService()
   
+  // Posted with an optional "uid" when a push reports a revoked session
+  static let sessionRevokedNotification = Notification.Name("AuthSessionRevoked")
+  
+  // Posted with the "token" once APNs gives this device a push token
+  static let pushTokenNotification = Notification.Name("AuthPushToken")
+  
   // MARK: - Constants
-  private let apiBaseURL = "https://super-app-case.web.app/api"
   private let tokenManager = SecureTokenManager.shared
   
+  // Set from JS and AppDelegate while requests may be running
+  private let configLock = NSLock()
+  
+  // Backend of the current tenant and region, set from JS; the default is used until then
+  private var _apiBaseURL = "https://super-app-case.web.app/api"
+  private var apiBaseURL: String {
+    configLock.lock()
+    defer { configLock.unlock() }
+    return _apiBaseURL
+  }
+  
+  // APNs token the backend sends silent pushes to, uploaded from JS for each signed in session
+  private var _pushToken: String?
+  var pushToken: String? {
+    configLock.lock()
+    defer { configLock.unlock() }
+    return _pushToken
+  }
+  
   // MARK: - Data Models
   
   struct LoginRequest: Codable {
@@ -28,9 +52,18 @@ class AuthService {
     let displayName: String?
   }
   
-  struct AuthResponse: Codable {
+  struct RefreshRequest: Codable {
+    let refreshToken: String
+  }
+  
+  struct IdentityProviderRequest: Codable {
+    let providerId: String
+    let idToken: String
+  }
+  
+  struct AuthResponse<T: Codable>: Codable {
     let success: Bool
-    let data: AuthData?
+    let data: T?
     let error: ErrorResponse?
     let message: String?
   }
@@ -40,8 +73,15 @@ class AuthService {
     let email: String
     let displayName: String
     let token: String
+    let refreshToken: String?
     let role: String
     let permissions: [String]
+    let emailVerified: Bool?
+  }
+  
+  struct RefreshData: Codable {
+    let token: String
+    let refreshToken: String?
   }
   
   struct ErrorResponse: Codable {
@@ -74,6 +114,30 @@ class AuthService {
   
   // MARK: - Public Methods
   
+  /**
+   * Send auth requests to another backend, e.g. after the tenant or region changed
+   */
+  func setApiBaseURL(_ baseURL: String) {
+    configLock.lock()
+    defer { configLock.unlock() }
+    _apiBaseURL = baseURL.hasSuffix("/") ? String(baseURL.dropLast()) : baseURL
+  }
+  
+  /**
+   * Keep the device's push token and let JS know so it can be uploaded
+   */
+  func setPushToken(_ token: String) {
+    configLock.lock()
+    _pushToken = token
+    configLock.unlock()
+    
+    NotificationCenter.default.post(
+      name: AuthService.pushTokenNotification,
+      object: nil,
+      userInfo: ["token": token]
+    )
+  }
+  
   /**
    * Login with email and password
    */
@@ -83,20 +147,16 @@ class AuthService {
     
     print("[AuthService] Attempting login for: \(email)")
     
-    let authData = try await performAuthRequest(endpoint: endpoint, body: requestBody)
+    let authData: AuthData = try await performAuthRequest(endpoint: endpoint, body: requestBody)
     
-    // Save token and user info to Keychain
-    try tokenManager.saveToken(authData.token)
+    // Keep the current account signed in, then save tokens and user info to Keychain
+    try tokenManager.stashActiveSession()
+    try saveTokens(token: authData.token, refreshToken: authData.refreshToken)
     
-    let userInfo: [String: Any] = [
-      "uid": authData.uid,
-      "email": authData.email,
-      "displayName": authData.displayName,
-      "role": authData.role,
-      "permissions": authData.permissions
-    ]
+    let userInfo = makeUserInfo(authData)
     
     try tokenManager.saveUserInfo(userInfo)
+    try tokenManager.storeActiveSession()
     
     print("[AuthService] ✓ Login successful, saved to Keychain")
     
@@ -116,20 +176,16 @@ class AuthService {
     
     print("[AuthService] Attempting signup for: \(email)")
     
-    let authData = try await performAuthRequest(endpoint: endpoint, body: requestBody)
+    let authData: AuthData = try await performAuthRequest(endpoint: endpoint, body: requestBody)
     
-    // Save token and user info to Keychain
-    try tokenManager.saveToken(authData.token)
+    // Keep the current account signed in, then save tokens and user info to Keychain
+    try tokenManager.stashActiveSession()
+    try saveTokens(token: authData.token, refreshToken: authData.refreshToken)
     
-    let userInfo: [String: Any] = [
-      "uid": authData.uid,
-      "email": authData.email,
-      "displayName": authData.displayName,
-      "role": authData.role,
-      "permissions": authData.permissions
-    ]
+    let userInfo = makeUserInfo(authData)
     
     try tokenManager.saveUserInfo(userInfo)
+    try tokenManager.storeActiveSession()
     
     print("[AuthService] ✓ Signup successful, saved to Keychain")
     
@@ -137,13 +193,113 @@ class AuthService {
   }
   
   /**
-   * Logout - clear all auth data
+   * Exchange an ID token from an identity provider (OIDC / SSO) for a Super App session
+   * The backend verifies the token and maps the identity to a user
+   */
+  func loginWithIdentityProvider(providerId: String, idToken: String) async throws -> [String: Any] {
+    let endpoint = "\(apiBaseURL)/auth/oidc"
+    let requestBody = IdentityProviderRequest(providerId: providerId, idToken: idToken)
+    
+    print("[AuthService] Attempting identity provider login: \(providerId)")
+    
+    let authData: AuthData = try await performAuthRequest(endpoint: endpoint, body: requestBody)
+    
+    // Keep the current account signed in, then save tokens and user info to Keychain
+    try tokenManager.stashActiveSession()
+    try saveTokens(token: authData.token, refreshToken: authData.refreshToken)
+    
+    let userInfo = makeUserInfo(authData)
+    
+    try tokenManager.saveUserInfo(userInfo)
+    try tokenManager.storeActiveSession()
+    
+    print("[AuthService] ✓ Identity provider login successful, saved to Keychain")
+    
+    return userInfo
+  }
+  
+  /**
+   * Exchange the stored refresh token for a new access token
+   */
+  func refreshSession() async throws -> [String: Any] {
+    guard let refreshToken = try tokenManager.getRefreshToken() else {
+      throw AuthError.noRefreshToken
+    }
+    
+    let endpoint = "\(apiBaseURL)/auth/refresh"
+    let requestBody = RefreshRequest(refreshToken: refreshToken)
+    
+    print("[AuthService] Refreshing session")
+    
+    let refreshData: RefreshData
+    do {
+      refreshData = try await performAuthRequest(endpoint: endpoint, body: requestBody)
+    } catch let error as URLError {
+      // Lets JS tell being offline apart from a rejected refresh token
+      throw AuthError.networkError(error)
+    }
+    
+    // Refresh tokens may rotate, keep the old one otherwise
+    try saveTokens(token: refreshData.token, refreshToken: refreshData.refreshToken)
+    try tokenManager.storeActiveSession()
+    
+    print("[AuthService] ✓ Session refreshed, saved to Keychain")
+    
+    let timestamp = try tokenManager.getTokenTimestamp() ?? 0
+    
+    return [
+      "token": refreshData.token,
+      "timestamp": timestamp
+    ]
+  }
+  
+  /**
+   * Logout - clear the active account, other signed-in accounts are kept
    */
   func logout() throws {
-    try tokenManager.clearAll()
+    try tokenManager.removeActiveSession()
     print("[AuthService] ✓ Logged out, cleared Keychain")
   }
   
+  /**
+   * Sign out an account whose session the backend revoked, e.g. from another device
+   * Without a uid the active account is meant. Returns true if it was the active one
+   */
+  func revokeSession(uid: String?) throws -> Bool {
+    let activeUid = try tokenManager.getUserInfo()?["uid"] as? String
+    
+    guard let uid = uid, uid != activeUid else {
+      try tokenManager.removeActiveSession()
+      print("[AuthService] ✓ Revoked session cleared from Keychain")
+      return true
+    }
+    
+    try tokenManager.deleteStoredSession(uid: uid)
+    print("[AuthService] ✓ Revoked account removed from Keychain")
+    return false
+  }
+  
+  /**
+   * Switch the active session to another signed-in account
+   */
+  func switchAccount(uid: String) throws -> [String: Any] {
+    guard try tokenManager.activateStoredSession(uid: uid),
+          let token = try tokenManager.getToken(),
+          let userInfo = try tokenManager.getUserInfo() else {
+      throw AuthError.accountNotFound
+    }
+    
+    let timestamp = try tokenManager.getTokenTimestamp() ?? 0
+    
+    print("[AuthService] ✓ Switched account")
+    
+    return [
+      "token": token,
+      "userInfo": userInfo,
+      "timestamp": timestamp
+    ]
+  }
+  
   /**
    * Get current user info from Keychain
    */
@@ -160,13 +316,37 @@ class AuthService {
   
   // MARK: - Private Methods
   
+  /**
+   * User info shape shared with JS (`UserInfo`)
+   */
+  private func makeUserInfo(_ authData: AuthData) -> [String: Any] {
+    return [
+      "uid": authData.uid,
+      "email": authData.email,
+      "displayName": authData.displayName,
+      "role": authData.role,
+      "permissions": authData.permissions,
+      "emailVerified": authData.emailVerified ?? false
+    ]
+  }
+  
+  /**
+   * Save access token and, when issued, refresh token to Keychain
+   */
+  private func saveTokens(token: String, refreshToken: String?) throws {
+    try tokenManager.saveToken(token)
+    if let refreshToken = refreshToken {
+      try tokenManager.saveRefreshToken(refreshToken)
+    }
+  }
+  
   /**
    * Perform authentication request to backend
    */
-  private func performAuthRequest<T: Encodable>(
+  private func performAuthRequest<T: Encodable, R: Codable>(
     endpoint: String,
     body: T
-  ) async throws -> AuthData {
+  ) async throws -> R {
     guard let url = URL(string: endpoint) else {
       throw AuthError.invalidURL
     }
@@ -189,14 +369,18 @@ class AuthService {
     
     print("[AuthService] Response status: \(httpResponse.statusCode)")
     
-    // Decode response
+    // Decode response - error bodies are not always JSON, e.g. from a rate limiting proxy
     let decoder = JSONDecoder()
-    let authResponse = try decoder.decode(AuthResponse.self, from: data)
+    let authResponse = try? decoder.decode(AuthResponse<R>.self, from: data)
     
     // Check for success
-    guard authResponse.success, let authData = authResponse.data else {
-      let errorMessage = authResponse.error?.message ?? authResponse.message ?? "Authentication failed"
-      throw AuthError.apiError(message: errorMessage)
+    guard let authResponse = authResponse, authResponse.success, let authData = authResponse.data else {
+      throw AuthError.fromResponse(
+        status: httpResponse.statusCode,
+        code: authResponse?.error?.code,
+        message: authResponse?.error?.message ?? authResponse?.message,
+        retryAfter: httpResponse.value(forHTTPHeaderField: "Retry-After")
+      )
     }
     
     return authData
@@ -205,11 +389,39 @@ class AuthService {
 
 // MARK: - Auth Errors
 
-enum AuthError: Error, LocalizedError {
+enum AuthError: Error, LocalizedError, CustomNSError {
   case invalidURL
   case invalidResponse
   case apiError(message: String)
   case networkError(Error)
+  case noRefreshToken
+  case accountNotFound
+  case rateLimited(retryAfter: TimeInterval?)
+  case accountLocked(message: String?)
+  case emailUnverified
+  case sessionRevoked
+  
+  /**
+   * Map a failed backend response to an error, using the backend's error code
+   * when it sends one and the HTTP status otherwise
+   */
+  static func fromResponse(status: Int, code: String?, message: String?, retryAfter: String?) -> AuthError {
+    switch (code, status) {
+    case ("RATE_LIMITED"?, _), (_, 429):
+      return .rateLimited(retryAfter: retryAfter.flatMap { TimeInterval($0) })
+    case ("ACCOUNT_LOCKED"?, _), (_, 423):
+      return .accountLocked(message: message)
+    case ("EMAIL_UNVERIFIED"?, _):
+      return .emailUnverified
+    case ("SESSION_REVOKED"?, _):
+      return .sessionRevoked
+    default:
+      if let message = message {
+        return .apiError(message: message)
+      }
+      return (200..<300).contains(status) ? .invalidResponse : .apiError(message: "Authentication failed")
+    }
+  }
   
   var errorDescription: String? {
     switch self {
@@ -221,6 +433,18 @@ enum AuthError: Error, LocalizedError {
       return message
     case .networkError(let error):
       return "Network error: \(error.localizedDescription)"
+    case .noRefreshToken:
+      return "No refresh token available"
+    case .accountNotFound:
+      return "Account is not signed in on this device"
+    case .rateLimited:
+      return "Too many attempts"
+    case .accountLocked(let message):
+      return message ?? "Account is locked"
+    case .emailUnverified:
+      return "Email address is not verified"
+    case .sessionRevoked:
+      return "Session was revoked"
     }
   }
   
@@ -234,6 +458,29 @@ enum AuthError: Error, LocalizedError {
       return "API_ERROR"
     case .networkError:
       return "NETWORK_ERROR"
+    case .noRefreshToken:
+      return "NO_REFRESH_TOKEN"
+    case .accountNotFound:
+      return "ACCOUNT_NOT_FOUND"
+    case .rateLimited:
+      return "RATE_LIMITED"
+    case .accountLocked:
+      return "ACCOUNT_LOCKED"
+    case .emailUnverified:
+      return "EMAIL_UNVERIFIED"
+    case .sessionRevoked:
+      return "SESSION_REVOKED"
     }
   }
+  
+  /**
+   * Reaches JS as `error.userInfo`
+   */
+  var errorUserInfo: [String: Any] {
+    var userInfo: [String: Any] = [NSLocalizedDescriptionKey: errorDescription ?? ""]
+    if case .rateLimited(let retryAfter?) = self {
+      userInfo["retryAfterMs"] = Int(retryAfter * 1000)
+    }
+    return userInfo
+  }
 }
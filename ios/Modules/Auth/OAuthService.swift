@@ -0,0 +1,338 @@
+import AuthenticationServices
+import CryptoKit
+import Foundation
+import UIKit
+
+/**
+ * OAuthService
+ *
+ * Runs the OAuth 2.0 authorization code flow with PKCE against an OpenID Connect
+ * identity provider in the system browser, and returns the provider's tokens.
+ * The Super App session is created from the ID token by AuthService.
+ */
+class OAuthService: NSObject {
+
+  // MARK: - Singleton
+  static let shared = OAuthService()
+
+  // MARK: - Data Models
+
+  /**
+   * Identity provider as configured on the tenant
+   */
+  struct ProviderConfig {
+    let id: String
+    let issuer: String
+    let clientId: String
+    let redirectUri: String
+    let scopes: [String]
+    let authorizationEndpoint: String?
+    let tokenEndpoint: String?
+    let additionalParameters: [String: String]
+
+    init(dictionary: [String: Any]) throws {
+      guard let id = dictionary["id"] as? String,
+            let issuer = dictionary["issuer"] as? String,
+            let clientId = dictionary["clientId"] as? String,
+            let redirectUri = dictionary["redirectUri"] as? String else {
+        throw OAuthError.invalidConfig
+      }
+
+      self.id = id
+      self.issuer = issuer
+      self.clientId = clientId
+      self.redirectUri = redirectUri
+      self.scopes = dictionary["scopes"] as? [String] ?? ["openid", "email", "profile"]
+      self.authorizationEndpoint = dictionary["authorizationEndpoint"] as? String
+      self.tokenEndpoint = dictionary["tokenEndpoint"] as? String
+      self.additionalParameters = dictionary["additionalParameters"] as? [String: String] ?? [:]
+    }
+  }
+
+  struct ProviderTokens {
+    let idToken: String
+    let accessToken: String?
+  }
+
+  private struct DiscoveryDocument: Codable {
+    let authorization_endpoint: String
+    let token_endpoint: String
+  }
+
+  private struct TokenResponse: Codable {
+    let id_token: String?
+    let access_token: String?
+    let error: String?
+    let error_description: String?
+  }
+
+  // Kept alive while the browser is shown
+  private var currentSession: ASWebAuthenticationSession?
+
+  // MARK: - Private Init
+  private override init() {}
+
+  // MARK: - Public Methods
+
+  /**
+   * Sign in at the identity provider and exchange the authorization code for tokens
+   */
+  func authorize(provider: ProviderConfig) async throws -> ProviderTokens {
+    let (authorizationEndpoint, tokenEndpoint) = try await resolveEndpoints(provider)
+
+    // PKCE (RFC 7636): only this app instance can redeem the code
+    let codeVerifier = try randomURLSafeString(byteCount: 32)
+    let codeChallenge = base64URLEncode(Data(SHA256.hash(data: Data(codeVerifier.utf8))))
+    let state = try randomURLSafeString(byteCount: 16)
+    let nonce = try randomURLSafeString(byteCount: 16)
+
+    guard var components = URLComponents(string: authorizationEndpoint) else {
+      throw OAuthError.invalidConfig
+    }
+    components.queryItems = (components.queryItems ?? []) + [
+      URLQueryItem(name: "response_type", value: "code"),
+      URLQueryItem(name: "client_id", value: provider.clientId),
+      URLQueryItem(name: "redirect_uri", value: provider.redirectUri),
+      URLQueryItem(name: "scope", value: provider.scopes.joined(separator: " ")),
+      URLQueryItem(name: "state", value: state),
+      URLQueryItem(name: "nonce", value: nonce),
+      URLQueryItem(name: "code_challenge", value: codeChallenge),
+      URLQueryItem(name: "code_challenge_method", value: "S256")
+    ] + provider.additionalParameters.map { URLQueryItem(name: $0.key, value: $0.value) }
+
+    guard let authorizationURL = components.url else {
+      throw OAuthError.invalidConfig
+    }
+
+    print("[OAuthService] Starting sign-in with \(provider.id)")
+
+    let callbackURL = try await presentAuthorization(
+      url: authorizationURL,
+      callbackScheme: URL(string: provider.redirectUri)?.scheme
+    )
+
+    let callbackItems = URLComponents(url: callbackURL, resolvingAgainstBaseURL: false)?.queryItems ?? []
+    func callbackValue(_ name: String) -> String? {
+      return callbackItems.first { $0.name == name }?.value
+    }
+
+    if let error = callbackValue("error") {
+      throw OAuthError.providerError(message: callbackValue("error_description") ?? error)
+    }
+    guard callbackValue("state") == state else {
+      throw OAuthError.stateMismatch
+    }
+    guard let code = callbackValue("code") else {
+      throw OAuthError.invalidResponse
+    }
+
+    let tokens = try await exchangeCode(
+      code,
+      codeVerifier: codeVerifier,
+      tokenEndpoint: tokenEndpoint,
+      provider: provider
+    )
+
+    // Reject ID tokens that were not issued for this request
+    guard idTokenNonce(tokens.idToken) == nonce else {
+      throw OAuthError.invalidResponse
+    }
+
+    print("[OAuthService] ✓ Received tokens from \(provider.id)")
+
+    return tokens
+  }
+
+  // MARK: - Private Methods
+
+  /**
+   * Use configured endpoints, or discover them from the issuer
+   */
+  private func resolveEndpoints(_ provider: ProviderConfig) async throws -> (String, String) {
+    if let authorizationEndpoint = provider.authorizationEndpoint,
+       let tokenEndpoint = provider.tokenEndpoint {
+      return (authorizationEndpoint, tokenEndpoint)
+    }
+
+    let issuer = provider.issuer.hasSuffix("/") ? String(provider.issuer.dropLast()) : provider.issuer
+    guard let url = URL(string: "\(issuer)/.well-known/openid-configuration") else {
+      throw OAuthError.invalidConfig
+    }
+
+    do {
+      let (data, _) = try await URLSession.shared.data(from: url)
+      let document = try JSONDecoder().decode(DiscoveryDocument.self, from: data)
+      return (
+        provider.authorizationEndpoint ?? document.authorization_endpoint,
+        provider.tokenEndpoint ?? document.token_endpoint
+      )
+    } catch {
+      throw OAuthError.discoveryFailed(error)
+    }
+  }
+
+  /**
+   * Show the provider's sign-in page and wait for the redirect back to the app
+   */
+  @MainActor
+  private func presentAuthorization(url: URL, callbackScheme: String?) async throws -> URL {
+    try await withCheckedThrowingContinuation { continuation in
+      let session = ASWebAuthenticationSession(
+        url: url,
+        callbackURLScheme: callbackScheme
+      ) { [weak self] callbackURL, error in
+        self?.currentSession = nil
+
+        if let error = error as? ASWebAuthenticationSessionError, error.code == .canceledLogin {
+          continuation.resume(throwing: OAuthError.cancelled)
+        } else if let error = error {
+          continuation.resume(throwing: OAuthError.providerError(message: error.localizedDescription))
+        } else if let callbackURL = callbackURL {
+          continuation.resume(returning: callbackURL)
+        } else {
+          continuation.resume(throwing: OAuthError.invalidResponse)
+        }
+      }
+
+      session.presentationContextProvider = self
+      currentSession = session
+
+      if !session.start() {
+        currentSession = nil
+        continuation.resume(throwing: OAuthError.providerError(message: "Could not open the sign-in page"))
+      }
+    }
+  }
+
+  /**
+   * Redeem the authorization code at the token endpoint
+   */
+  private func exchangeCode(
+    _ code: String,
+    codeVerifier: String,
+    tokenEndpoint: String,
+    provider: ProviderConfig
+  ) async throws -> ProviderTokens {
+    guard let url = URL(string: tokenEndpoint) else {
+      throw OAuthError.invalidConfig
+    }
+
+    var form = URLComponents()
+    form.queryItems = [
+      URLQueryItem(name: "grant_type", value: "authorization_code"),
+      URLQueryItem(name: "code", value: code),
+      URLQueryItem(name: "redirect_uri", value: provider.redirectUri),
+      URLQueryItem(name: "client_id", value: provider.clientId),
+      URLQueryItem(name: "code_verifier", value: codeVerifier)
+    ]
+
+    var request = URLRequest(url: url)
+    request.httpMethod = "POST"
+    request.setValue("application/x-www-form-urlencoded", forHTTPHeaderField: "Content-Type")
+    request.httpBody = form.percentEncodedQuery?.data(using: .utf8)
+
+    let data: Data
+    do {
+      data = try await URLSession.shared.data(for: request).0
+    } catch let error as URLError {
+      throw AuthError.networkError(error)
+    }
+
+    guard let response = try? JSONDecoder().decode(TokenResponse.self, from: data) else {
+      throw OAuthError.invalidResponse
+    }
+
+    if let error = response.error {
+      throw OAuthError.providerError(message: response.error_description ?? error)
+    }
+
+    guard let idToken = response.id_token else {
+      throw OAuthError.invalidResponse
+    }
+
+    return ProviderTokens(idToken: idToken, accessToken: response.access_token)
+  }
+
+  /**
+   * Read the nonce claim - the signature is verified by the backend
+   */
+  private func idTokenNonce(_ idToken: String) -> String? {
+    let segments = idToken.split(separator: ".")
+    guard segments.count >= 2 else { return nil }
+
+    var payload = segments[1]
+      .replacingOccurrences(of: "-", with: "+")
+      .replacingOccurrences(of: "_", with: "/")
+    payload += String(repeating: "=", count: (4 - payload.count % 4) % 4)
+
+    guard let data = Data(base64Encoded: payload),
+          let claims = try? JSONSerialization.jsonObject(with: data) as? [String: Any] else {
+      return nil
+    }
+    return claims["nonce"] as? String
+  }
+
+  private func randomURLSafeString(byteCount: Int) throws -> String {
+    var bytes = [UInt8](repeating: 0, count: byteCount)
+    let status = SecRandomCopyBytes(kSecRandomDefault, byteCount, &bytes)
+    guard status == errSecSuccess else {
+      throw OAuthError.providerError(message: "Could not generate a secure random value")
+    }
+    return base64URLEncode(Data(bytes))
+  }
+
+  private func base64URLEncode(_ data: Data) -> String {
+    return data.base64EncodedString()
+      .replacingOccurrences(of: "+", with: "-")
+      .replacingOccurrences(of: "/", with: "_")
+      .replacingOccurrences(of: "=", with: "")
+  }
+}
+
+// MARK: - ASWebAuthenticationPresentationContextProviding
+
+extension OAuthService: ASWebAuthenticationPresentationContextProviding {
+  func presentationAnchor(for session: ASWebAuthenticationSession) -> ASPresentationAnchor {
+    return UIApplication.shared.connectedScenes
+      .compactMap { $0 as? UIWindowScene }
+      .flatMap { $0.windows }
+      .first { $0.isKeyWindow } ?? ASPresentationAnchor()
+  }
+}
+
+// MARK: - OAuth Errors
+
+enum OAuthError: Error, LocalizedError {
+  case invalidConfig
+  case discoveryFailed(Error)
+  case cancelled
+  case stateMismatch
+  case invalidResponse
+  case providerError(message: String)
+
+  var errorDescription: String? {
+    switch self {
+    case .invalidConfig:
+      return "Invalid identity provider configuration"
+    case .discoveryFailed(let error):
+      return "Could not reach the identity provider: \(error.localizedDescription)"
+    case .cancelled:
+      return "Sign-in was cancelled"
+    case .stateMismatch:
+      return "Sign-in response did not match the request"
+    case .invalidResponse:
+      return "Invalid response from the identity provider"
+    case .providerError(let message):
+      return message
+    }
+  }
+
+  var errorCode: String {
+    switch self {
+    case .cancelled:
+      return "OAUTH_CANCELLED"
+    default:
+      return "OAUTH_ERROR"
+    }
+  }
+}
@@ -18,9 +18,15 @@ class SecureTokenManager {
   private enum KeychainKey: String {
     case token = "auth_token"
     case tokenTimestamp = "auth_token_timestamp"
+    case refreshToken = "auth_refresh_token"
+    case rememberedEmail = "auth_remembered_email"
     case userInfo = "auth_user_info"
+    case accountIds = "auth_account_ids"
   }
   
+  // Each signed-in account keeps a copy of its session under this prefix + uid
+  private let sessionKeyPrefix = "auth_session_"
+  
   // MARK: - Private Init
   private init() {}
   
@@ -44,6 +50,42 @@ class SecureTokenManager {
     return try getString(forKey: .token)
   }
   
+  /**
+   * Save refresh token to Keychain
+   */
+  func saveRefreshToken(_ refreshToken: String) throws {
+    try saveString(refreshToken, forKey: .refreshToken)
+  }
+  
+  /**
+   * Retrieve refresh token from Keychain
+   */
+  func getRefreshToken() throws -> String? {
+    return try getString(forKey: .refreshToken)
+  }
+  
+  /**
+   * Save the email shown on the login screen ("remember me")
+   * Survives logout - only the password is never stored
+   */
+  func saveRememberedEmail(_ email: String) throws {
+    try saveString(email, forKey: .rememberedEmail)
+  }
+  
+  /**
+   * Retrieve the remembered email
+   */
+  func getRememberedEmail() throws -> String? {
+    return try getString(forKey: .rememberedEmail)
+  }
+  
+  /**
+   * Forget the remembered email
+   */
+  func deleteRememberedEmail() throws {
+    try deleteItem(forKey: .rememberedEmail)
+  }
+  
   /**
    * Get token timestamp
    */
@@ -80,6 +122,7 @@ class SecureTokenManager {
   func deleteToken() throws {
     try deleteItem(forKey: .token)
     try deleteItem(forKey: .tokenTimestamp)
+    try deleteItem(forKey: .refreshToken)
   }
   
   /**
@@ -97,6 +140,124 @@ class SecureTokenManager {
     try deleteUserInfo()
   }
   
+  // MARK: - Multiple Accounts
+  
+  /**
+   * Copy the active session to the account store so it can be switched back to
+   */
+  func storeActiveSession() throws {
+    guard let token = try getToken(),
+          let userInfo = try getUserInfo(),
+          let uid = userInfo["uid"] as? String else {
+      return
+    }
+    
+    let timestamp = try getTokenTimestamp() ?? 0
+    var session: [String: Any] = [
+      "token": token,
+      "timestamp": timestamp,
+      "userInfo": userInfo,
+      "lastActiveAt": Int64(Date().timeIntervalSince1970 * 1000)
+    ]
+    if let refreshToken = try getRefreshToken() {
+      session["refreshToken"] = refreshToken
+    }
+    
+    let data = try JSONSerialization.data(withJSONObject: session)
+    try saveData(data, forAccount: sessionKeyPrefix + uid, accessible: kSecAttrAccessibleAfterFirstUnlockThisDeviceOnly)
+    
+    var accountIds = try getAccountIds()
+    if !accountIds.contains(uid) {
+      accountIds.append(uid)
+      try saveAccountIds(accountIds)
+    }
+  }
+  
+  /**
+   * Store the active session and free the active slot, e.g. before signing in to another account
+   */
+  func stashActiveSession() throws {
+    try storeActiveSession()
+    try clearAll()
+  }
+  
+  /**
+   * Make a stored account the active session
+   * Returns false if the account has no stored session
+   */
+  func activateStoredSession(uid: String) throws -> Bool {
+    guard let session = try getStoredSession(uid: uid),
+          let token = session["token"] as? String,
+          let userInfo = session["userInfo"] as? [String: Any] else {
+      return false
+    }
+    
+    try stashActiveSession()
+    
+    // Keep the original timestamp so expiry is still tracked correctly
+    let timestamp = (session["timestamp"] as? NSNumber)?.int64Value ?? 0
+    try saveString(token, forKey: .token)
+    try saveString(String(timestamp), forKey: .tokenTimestamp)
+    if let refreshToken = session["refreshToken"] as? String {
+      try saveRefreshToken(refreshToken)
+    }
+    try saveUserInfo(userInfo)
+    
+    return true
+  }
+  
+  /**
+   * User info of every signed-in account, most recently used first
+   */
+  func getStoredAccounts() throws -> [[String: Any]] {
+    let sessions = try getAccountIds().compactMap { try getStoredSession(uid: $0) }
+    
+    return sessions
+      .sorted {
+        let lhs = ($0["lastActiveAt"] as? NSNumber)?.int64Value ?? 0
+        let rhs = ($1["lastActiveAt"] as? NSNumber)?.int64Value ?? 0
+        return lhs > rhs
+      }
+      .compactMap { $0["userInfo"] as? [String: Any] }
+  }
+  
+  /**
+   * Sign a stored account out of this device
+   */
+  func deleteStoredSession(uid: String) throws {
+    try deleteItem(forAccount: sessionKeyPrefix + uid, accessible: kSecAttrAccessibleAfterFirstUnlockThisDeviceOnly)
+    try saveAccountIds(try getAccountIds().filter { $0 != uid })
+  }
+  
+  /**
+   * Clear the active session and its stored copy, other accounts stay signed in
+   */
+  func removeActiveSession() throws {
+    if let uid = try getUserInfo()?["uid"] as? String {
+      try deleteStoredSession(uid: uid)
+    }
+    try clearAll()
+  }
+  
+  private func getStoredSession(uid: String) throws -> [String: Any]? {
+    guard let data = try getData(forAccount: sessionKeyPrefix + uid, accessible: kSecAttrAccessibleAfterFirstUnlockThisDeviceOnly) else {
+      return nil
+    }
+    return try JSONSerialization.jsonObject(with: data) as? [String: Any]
+  }
+  
+  private func getAccountIds() throws -> [String] {
+    guard let data = try getData(forKey: .accountIds) else {
+      return []
+    }
+    return (try JSONSerialization.jsonObject(with: data) as? [String]) ?? []
+  }
+  
+  private func saveAccountIds(_ accountIds: [String]) throws {
+    let data = try JSONSerialization.data(withJSONObject: accountIds)
+    try saveData(data, forKey: .accountIds)
+  }
+  
   // MARK: - Private Keychain Methods
   
   /**
@@ -128,8 +289,12 @@ class SecureTokenManager {
    * Save data to Keychain
    */
   private func saveData(_ data: Data, forKey key: KeychainKey) throws {
+    try saveData(data, forAccount: key.rawValue, accessible: accessibility(forKey: key))
+  }
+  
+  private func saveData(_ data: Data, forAccount account: String, accessible: CFString) throws {
     // First try to update existing item
-    let query = keychainQuery(forKey: key)
+    let query = keychainQuery(forAccount: account, accessible: accessible)
     let attributes: [String: Any] = [
       kSecValueData as String: data
     ]
@@ -155,7 +320,11 @@ class SecureTokenManager {
    * Get data from Keychain
    */
   private func getData(forKey key: KeychainKey) throws -> Data? {
-    var query = keychainQuery(forKey: key)
+    return try getData(forAccount: key.rawValue, accessible: accessibility(forKey: key))
+  }
+  
+  private func getData(forAccount account: String, accessible: CFString) throws -> Data? {
+    var query = keychainQuery(forAccount: account, accessible: accessible)
     query[kSecReturnData as String] = true
     query[kSecMatchLimit as String] = kSecMatchLimitOne
     
@@ -181,7 +350,11 @@ class SecureTokenManager {
    * Delete item from Keychain
    */
   private func deleteItem(forKey key: KeychainKey) throws {
-    let query = keychainQuery(forKey: key)
+    try deleteItem(forAccount: key.rawValue, accessible: accessibility(forKey: key))
+  }
+  
+  private func deleteItem(forAccount account: String, accessible: CFString) throws {
+    let query = keychainQuery(forAccount: account, accessible: accessible)
     let status = SecItemDelete(query as CFDictionary)
     
     // Ignore if item doesn't exist
@@ -193,14 +366,26 @@ class SecureTokenManager {
   /**
    * Build Keychain query dictionary
    */
-  private func keychainQuery(forKey key: KeychainKey) -> [String: Any] {
+  private func keychainQuery(forAccount account: String, accessible: CFString) -> [String: Any] {
     return [
       kSecClass as String: kSecClassGenericPassword,
       kSecAttrService as String: serviceName,
-      kSecAttrAccount as String: key.rawValue,
-      kSecAttrAccessible as String: kSecAttrAccessibleAfterFirstUnlock
+      kSecAttrAccount as String: account,
+      kSecAttrAccessible as String: accessible
     ]
   }
+  
+  /**
+   * Refresh tokens are bound to this device and never restored from a backup
+   */
+  private func accessibility(forKey key: KeychainKey) -> CFString {
+    switch key {
+    case .refreshToken:
+      return kSecAttrAccessibleAfterFirstUnlockThisDeviceOnly
+    default:
+      return kSecAttrAccessibleAfterFirstUnlock
+    }
+  }
 }
 
 // MARK: - Keychain Errors
@@ -171,6 +171,11 @@ class ChatService {
   // MARK: - Initialization
   
   func initialize(userId: String, displayName: String, photoURL: String?, completion: @escaping (Error?) -> Void) {
+    // Switching accounts - drop the previous user's room observers
+    if let currentUserId = currentUserId, currentUserId != userId {
+      roomSubscriptions.keys.forEach { unsubscribeFromRoom(roomId: $0) }
+    }
+    
     self.currentUserId = userId
     self.currentUserDisplayName = displayName
     self.currentUserPhotoURL = photoURL
@@ -190,7 +195,8 @@ class ChatService {
       self?.onMessageFailed?(localId, reason)
     }
     
-    // Start processing pending messages
+    // Start processing this user's pending messages
+    messageQueue.setUser(userId)
     messageQueue.startProcessing()
     
     completion(nil)
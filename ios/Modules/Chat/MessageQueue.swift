@@ -39,7 +39,9 @@ struct QueuedMessage {
 class MessageQueue {
   
   private var queue: [String: QueuedMessage] = [:]
-  private let queueKey = "chat_message_outbox"
+  // Outbox written before it was kept per account
+  private let legacyQueueKey = "chat_message_outbox"
+  private var queueKey: String?
   private let maxRetries = 5
   private let retryDelays: [TimeInterval] = [1, 2, 4, 8, 16] // Exponential backoff
   
@@ -50,12 +52,27 @@ class MessageQueue {
   var onMessageSent: ((String, String) -> Void)?
   var onMessageFailed: ((String, String?) -> Void)?
   
-  init() {
+  // MARK: - Queue Management
+  
+  /**
+   * Use the outbox of the given user, each account keeps its own pending messages
+   */
+  func setUser(_ userId: String) {
+    let key = "\(legacyQueueKey)_\(userId)"
+    guard key != queueKey else { return }
+    
+    queueKey = key
+    queue = [:]
     loadQueue()
+    
+    // Hand an outbox from before accounts were separated to the first user
+    if UserDefaults.standard.object(forKey: legacyQueueKey) != nil {
+      loadQueue(forKey: legacyQueueKey)
+      UserDefaults.standard.removeObject(forKey: legacyQueueKey)
+      saveQueue()
+    }
   }
   
-  // MARK: - Queue Management
-  
   func enqueue(message: ChatMessage, localId: String, completion: @escaping (Result<Void, Error>) -> Void) {
     let queuedMessage = QueuedMessage(
       localId: localId,
@@ -173,13 +190,20 @@ class MessageQueue {
   // MARK: - Persistence
   
   private func saveQueue() {
+    guard let queueKey = queueKey else { return }
+    
     let queueData = queue.values.map { $0.toDictionary() }
     UserDefaults.standard.set(queueData, forKey: queueKey)
     UserDefaults.standard.synchronize()
   }
   
   private func loadQueue() {
-    guard let queueData = UserDefaults.standard.array(forKey: queueKey) as? [[String: Any]] else {
+    guard let queueKey = queueKey else { return }
+    loadQueue(forKey: queueKey)
+  }
+  
+  private func loadQueue(forKey key: String) {
+    guard let queueData = UserDefaults.standard.array(forKey: key) as? [[String: Any]] else {
       return
     }
     
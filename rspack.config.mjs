@@ -1,10 +1,34 @@
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import * as Repack from '@callstack/repack';
+import { DefinePlugin } from '@rspack/core';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+/**
+ * Keys the app trusts are injected at build time, production builds fail without them.
+ *  - MINI_APP_SIGNING_PUBLIC_KEY: base64 (DER) RSA key Mini App bundles are signed with
+ *  - MANIFEST_PUBLIC_KEY: base64 Ed25519 key the remote manifest is signed with
+ */
+const TRUSTED_KEYS = ['MINI_APP_SIGNING_PUBLIC_KEY', 'MANIFEST_PUBLIC_KEY'];
+
+const defineTrustedKeys = mode => {
+  const missing = TRUSTED_KEYS.filter(name => !process.env[name]);
+  if (missing.length > 0) {
+    if (mode === 'production') {
+      throw new Error(`Missing ${missing.join(', ')}: production builds need the keys the app trusts`);
+    }
+    console.warn(`[rspack] ${missing.join(', ')} not set, signed Mini Apps and the manifest will be rejected`);
+  }
+
+  return new DefinePlugin(
+    Object.fromEntries(
+      TRUSTED_KEYS.map(name => [`process.env.${name}`, JSON.stringify(process.env[name] ?? '')])
+    )
+  );
+};
+
 /**
  * Rspack configuration enhanced with Re.Pack defaults for React Native.
  *
@@ -12,7 +36,7 @@ const __dirname = path.dirname(__filename);
  * Learn about Re.Pack configuration: https://re-pack.dev/docs/guides/configuration
  */
 
-export default Repack.defineRspackConfig({
+export default Repack.defineRspackConfig(({ mode }) => ({
   context: __dirname,
   entry: './index.js',
   resolve: {
@@ -34,6 +58,7 @@ export default Repack.defineRspackConfig({
   },
   plugins: [
     new Repack.RepackPlugin(),
+    defineTrustedKeys(mode),
     new Repack.plugins.ModuleFederationPluginV1({
       name: 'HostApp',
       remotes: {},
@@ -45,4 +70,4 @@ export default Repack.defineRspackConfig({
       },
     }),
   ],
-});
+}));
@@ -0,0 +1,224 @@
+/**
+ * Mock OpenID Connect identity provider for local development and tests
+ *
+ * Implements just enough of OIDC for the host's authorization code + PKCE flow:
+ * discovery, an authorize endpoint that signs in straight away (no login page),
+ * a token endpoint that verifies the PKCE code_verifier, and userinfo.
+ * ID tokens are HS256-signed with MOCK_IDP_SECRET so a dev backend can verify them.
+ *
+ * Usage: npm run mock-idp
+ *   MOCK_IDP_PORT    port to listen on (default 9400)
+ *   MOCK_IDP_SECRET  ID token signing secret (default "mock-idp-secret")
+ *
+ * Pass login_hint=<email> in the authorization request to sign in as another test user.
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+const { URL, URLSearchParams } = require('url');
+
+const PORT = Number(process.env.MOCK_IDP_PORT) || 9400;
+const SECRET = process.env.MOCK_IDP_SECRET || 'mock-idp-secret';
+const ISSUER = `http://localhost:${PORT}`;
+const CODE_TTL_MS = 60 * 1000;
+const TOKEN_TTL_S = 60 * 60;
+
+const DEFAULT_USER = {
+  sub: 'mock-user-1',
+  email: 'tester@mock-idp.local',
+  name: 'Mock Tester',
+};
+
+// Authorization codes waiting to be redeemed
+const pendingCodes = new Map();
+// Access tokens issued, for userinfo
+const accessTokens = new Map();
+
+const base64url = (input) =>
+  Buffer.from(input)
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const signIdToken = (claims) => {
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = base64url(
+    crypto.createHmac('sha256', SECRET).update(`${header}.${payload}`).digest()
+  );
+  return `${header}.${payload}.${signature}`;
+};
+
+const userFromHint = (loginHint) => {
+  if (!loginHint) return DEFAULT_USER;
+  return {
+    sub: `mock-${crypto.createHash('sha256').update(loginHint).digest('hex').slice(0, 12)}`,
+    email: loginHint,
+    name: loginHint.split('@')[0],
+  };
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const redirectWith = (res, redirectUri, params) => {
+  const location = new URL(redirectUri);
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined) location.searchParams.set(key, value);
+  });
+  res.writeHead(302, { Location: location.toString() });
+  res.end();
+};
+
+const readForm = (req) =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => resolve(new URLSearchParams(body)));
+    req.on('error', reject);
+  });
+
+const handleDiscovery = (res) => {
+  sendJson(res, 200, {
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    userinfo_endpoint: `${ISSUER}/userinfo`,
+    response_types_supported: ['code'],
+    grant_types_supported: ['authorization_code'],
+    code_challenge_methods_supported: ['S256'],
+    id_token_signing_alg_values_supported: ['HS256'],
+    scopes_supported: ['openid', 'email', 'profile'],
+  });
+};
+
+const handleAuthorize = (res, params) => {
+  const redirectUri = params.get('redirect_uri');
+  if (!redirectUri || !params.get('client_id')) {
+    sendJson(res, 400, {
+      error: 'invalid_request',
+      error_description: 'client_id and redirect_uri are required',
+    });
+    return;
+  }
+
+  const state = params.get('state') ?? undefined;
+
+  if (params.get('response_type') !== 'code') {
+    redirectWith(res, redirectUri, { error: 'unsupported_response_type', state });
+    return;
+  }
+  if (!params.get('code_challenge') || params.get('code_challenge_method') !== 'S256') {
+    redirectWith(res, redirectUri, {
+      error: 'invalid_request',
+      error_description: 'PKCE with S256 is required',
+      state,
+    });
+    return;
+  }
+
+  const code = crypto.randomBytes(16).toString('hex');
+  pendingCodes.set(code, {
+    clientId: params.get('client_id'),
+    redirectUri,
+    codeChallenge: params.get('code_challenge'),
+    nonce: params.get('nonce') ?? undefined,
+    user: userFromHint(params.get('login_hint')),
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  console.log(`[MockIdP] Authorized ${params.get('client_id')}`);
+  redirectWith(res, redirectUri, { code, state });
+};
+
+const handleToken = async (req, res) => {
+  const form = await readForm(req);
+  const code = form.get('code');
+  const pending = code && pendingCodes.get(code);
+  pendingCodes.delete(code);
+
+  if (form.get('grant_type') !== 'authorization_code') {
+    sendJson(res, 400, { error: 'unsupported_grant_type' });
+    return;
+  }
+  if (
+    !pending ||
+    pending.expiresAt < Date.now() ||
+    pending.clientId !== form.get('client_id') ||
+    pending.redirectUri !== form.get('redirect_uri')
+  ) {
+    sendJson(res, 400, { error: 'invalid_grant', error_description: 'Unknown or expired code' });
+    return;
+  }
+
+  const verifier = form.get('code_verifier') ?? '';
+  const challenge = base64url(crypto.createHash('sha256').update(verifier).digest());
+  if (challenge !== pending.codeChallenge) {
+    sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    return;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = crypto.randomBytes(24).toString('hex');
+  accessTokens.set(accessToken, pending.user);
+
+  console.log(`[MockIdP] ✓ Issued tokens for ${pending.user.email}`);
+  sendJson(res, 200, {
+    token_type: 'Bearer',
+    access_token: accessToken,
+    expires_in: TOKEN_TTL_S,
+    id_token: signIdToken({
+      iss: ISSUER,
+      aud: pending.clientId,
+      iat: now,
+      exp: now + TOKEN_TTL_S,
+      nonce: pending.nonce,
+      email_verified: true,
+      ...pending.user,
+    }),
+  });
+};
+
+const handleUserInfo = (req, res) => {
+  const accessToken = (req.headers.authorization ?? '').replace(/^Bearer /, '');
+  const user = accessTokens.get(accessToken);
+  if (!user) {
+    sendJson(res, 401, { error: 'invalid_token' });
+    return;
+  }
+  sendJson(res, 200, { ...user, email_verified: true });
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, ISSUER);
+
+  Promise.resolve()
+    .then(() => {
+      if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+        return handleDiscovery(res);
+      }
+      if (req.method === 'GET' && url.pathname === '/authorize') {
+        return handleAuthorize(res, url.searchParams);
+      }
+      if (req.method === 'POST' && url.pathname === '/token') {
+        return handleToken(req, res);
+      }
+      if (req.method === 'GET' && url.pathname === '/userinfo') {
+        return handleUserInfo(req, res);
+      }
+      return sendJson(res, 404, { error: 'not_found' });
+    })
+    .catch((error) => {
+      console.error('[MockIdP] Request failed:', error);
+      sendJson(res, 500, { error: 'server_error' });
+    });
+});
+
+server.listen(PORT, () => {
+  console.log(`[MockIdP] Listening on ${ISSUER}`);
+});
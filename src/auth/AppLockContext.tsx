@@ -0,0 +1,273 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+  ReactNode,
+} from "react";
+import {
+  AppState,
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+} from "react-native";
+import { useAuth } from "./AuthContext";
+import { NativeAuthModule } from "./NativeAuthModule";
+import { useTenant } from "../tenant/TenantContext";
+import { miniAppLifecycleManager } from "../federation/MiniAppLifecycleManager";
+import { navigation } from "../host-sdk/navigation";
+
+/**
+ * App Lock Context
+ * Requires biometrics or the device passcode when a session is restored,
+ * when the app resumes after the tenant's idle timeout, and before sensitive Mini Apps open.
+ * Tenants can time out on foreground inactivity too, and sign out instead of locking.
+ */
+
+// How often foreground inactivity is checked
+const INACTIVITY_CHECK_INTERVAL_MS = 15 * 1000;
+
+interface AppLockContextType {
+  isLocked: boolean;
+  isSensitiveMiniApp: (appName: string) => boolean;
+  verifyDeviceOwner: (reason: string) => Promise<boolean>;
+}
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+export const AppLockProvider: React.FC<{ children: ReactNode }> = ({
+  children,
+}) => {
+  const { isAuthenticated, isLoading, userInfo, logout } = useAuth();
+  const { currentTenant } = useTenant();
+  const [isLocked, setIsLocked] = useState(false);
+  const sessionChecked = useRef(false);
+  const backgroundedAt = useRef<number | null>(null);
+  const lastInteractionAt = useRef(Date.now());
+  // Mini App open when a timeout signed the user out, reopened when they sign back in
+  const restoreTarget = useRef<{ uid: string; appName: string } | null>(null);
+
+  const appLock = currentTenant?.config.appLock;
+  const isEnabled = !!appLock?.enabled;
+
+  const lock = async () => {
+    // Without a passcode there is nothing to unlock with
+    if ((await NativeAuthModule.getDeviceAuthType()) === "none") {
+      console.warn("[AppLock] No biometrics or passcode set, skipping lock");
+      return;
+    }
+    console.log("[AppLock] Locked");
+    setIsLocked(true);
+  };
+
+  // Lock a session restored from Keychain, but not one the user just signed in to
+  useEffect(() => {
+    if (isLoading || sessionChecked.current) return;
+    sessionChecked.current = true;
+
+    if (isAuthenticated && isEnabled) {
+      lock();
+    }
+  }, [isLoading, isAuthenticated, isEnabled]);
+
+  // Nothing to protect once signed out
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setIsLocked(false);
+    }
+  }, [isAuthenticated]);
+
+  // Back to the Mini App the timeout closed, if the same user signed back in
+  useEffect(() => {
+    const target = restoreTarget.current;
+    if (!target || !isAuthenticated || !userInfo) return;
+    restoreTarget.current = null;
+
+    if (target.uid === userInfo.uid) {
+      // Wait for Home to mount, see RootNavigator
+      setTimeout(() => navigation.navigateToMiniApp(target.appName), 300);
+    }
+  }, [isAuthenticated, userInfo?.uid]);
+
+  /**
+   * Let the active Mini App save its state, then lock or sign out as the tenant configured
+   */
+  const timeOut = async () => {
+    miniAppLifecycleManager.onIdleTimeout();
+
+    if (appLock?.timeoutAction === "logout") {
+      const appName = miniAppLifecycleManager.getActiveMiniApp();
+      restoreTarget.current =
+        appName && userInfo ? { uid: userInfo.uid, appName } : null;
+      console.log("[AppLock] Idle timeout, signing out");
+      await logout("IDLE_TIMEOUT");
+    } else {
+      await lock();
+    }
+  };
+
+  // Read by the listeners below, which are registered once per config
+  const timeOutRef = useRef(timeOut);
+  timeOutRef.current = timeOut;
+  const isLockedRef = useRef(isLocked);
+  isLockedRef.current = isLocked;
+
+  // Time out when resuming after the idle timeout
+  useEffect(() => {
+    if (!isEnabled || !isAuthenticated) return;
+
+    const subscription = AppState.addEventListener("change", (nextState) => {
+      if (nextState === "background") {
+        backgroundedAt.current = Date.now();
+      } else if (nextState === "active" && backgroundedAt.current) {
+        const idleMs = Date.now() - backgroundedAt.current;
+        backgroundedAt.current = null;
+        lastInteractionAt.current = Date.now();
+
+        if (idleMs >= (appLock?.idleTimeoutMs ?? 0) && !isLockedRef.current) {
+          timeOutRef.current();
+        }
+      }
+    });
+
+    return () => subscription.remove();
+  }, [isEnabled, isAuthenticated, appLock?.idleTimeoutMs]);
+
+  // Time out after a while in the foreground without a touch
+  useEffect(() => {
+    const timeoutMs = appLock?.inactivityTimeoutMs;
+    if (!isEnabled || !isAuthenticated || !timeoutMs) return;
+
+    lastInteractionAt.current = Date.now();
+    const timer = setInterval(() => {
+      if (AppState.currentState !== "active" || isLockedRef.current) return;
+
+      if (Date.now() - lastInteractionAt.current >= timeoutMs) {
+        lastInteractionAt.current = Date.now();
+        timeOutRef.current();
+      }
+    }, INACTIVITY_CHECK_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [isEnabled, isAuthenticated, appLock?.inactivityTimeoutMs]);
+
+  // Observe touches anywhere without taking them from the touched view
+  const recordInteraction = () => {
+    lastInteractionAt.current = Date.now();
+    return false;
+  };
+
+  const verifyDeviceOwner = async (reason: string): Promise<boolean> => {
+    try {
+      return await NativeAuthModule.authenticateDeviceOwner(reason);
+    } catch (error) {
+      console.error("[AppLock] Device owner check failed:", error);
+      return false;
+    }
+  };
+
+  const unlock = async () => {
+    if (await verifyDeviceOwner("Unlock Super App")) {
+      console.log("[AppLock] ✓ Unlocked");
+      lastInteractionAt.current = Date.now();
+      setIsLocked(false);
+    }
+  };
+
+  const isSensitiveMiniApp = (appName: string): boolean =>
+    isEnabled && !!appLock?.sensitiveMiniApps?.includes(appName);
+
+  return (
+    <AppLockContext.Provider
+      value={{
+        isLocked,
+        isSensitiveMiniApp,
+        verifyDeviceOwner,
+      }}
+    >
+      <View
+        style={styles.container}
+        onStartShouldSetResponderCapture={recordInteraction}
+      >
+        {children}
+      </View>
+      {isLocked && (
+        <AppLockOverlay onUnlock={unlock} onLogout={() => logout()} />
+      )}
+    </AppLockContext.Provider>
+  );
+};
+
+/**
+ * Covers the app while locked, keeping navigation and Mini App state mounted underneath
+ */
+const AppLockOverlay: React.FC<{
+  onUnlock: () => void;
+  onLogout: () => void;
+}> = ({ onUnlock, onLogout }) => {
+  // Prompt straight away, the button is for retries
+  useEffect(() => {
+    onUnlock();
+  }, []);
+
+  return (
+    <View style={styles.overlay}>
+      <Text style={styles.icon}>🔒</Text>
+      <Text style={styles.title}>Super App is locked</Text>
+      <TouchableOpacity style={styles.unlockButton} onPress={onUnlock}>
+        <Text style={styles.unlockText}>Unlock</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={onLogout}>
+        <Text style={styles.logoutText}>Log out</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+export const useAppLock = () => {
+  const context = useContext(AppLockContext);
+  if (context === undefined) {
+    throw new Error("useAppLock must be used within an AppLockProvider");
+  }
+  return context;
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#F8F9FA",
+  },
+  icon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: "#212529",
+    marginBottom: 32,
+  },
+  unlockButton: {
+    backgroundColor: "#007AFF",
+    paddingHorizontal: 48,
+    paddingVertical: 14,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  unlockText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  logoutText: {
+    color: "#FF6B6B",
+    fontSize: 14,
+  },
+});
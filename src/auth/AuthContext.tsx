@@ -3,14 +3,40 @@ import React, {
   useContext,
   useState,
   useEffect,
+  useRef,
   ReactNode,
 } from "react";
 import Toast from "react-native-toast-message";
-import { NativeAuthModule } from "./NativeAuthModule";
+import {
+  NativeAuthModule,
+  onAuthStateChanged,
+  onPushTokenChanged,
+} from "./NativeAuthModule";
+import type { AuthStateData } from "./NativeAuthModule";
 import { SecureStorage } from "./SecureStorage";
-import { isTokenExpired } from "./tokenUtils";
-import { getAuthErrorMessage } from "./errors";
+import { getTokenExpiry, isTokenExpired } from "./tokenUtils";
+import {
+  AuthErrorCode,
+  getAuthErrorMessage,
+  isRetryableAuthError,
+} from "./errors";
+import {
+  DEFAULT_AUTH_ERROR_LANGUAGE,
+  translateAuthMessage,
+} from "./errorMessages";
+import type { AuthErrorLanguage, AuthErrorMessageKey } from "./errorMessages";
 import * as userApi from "./userApi";
+import {
+  clearAllMiniAppStorage,
+  clearAccountMiniAppStorage,
+} from "../host-sdk/storage";
+import { api } from "../host-sdk/api";
+import { closeMiniApps } from "../host-sdk/navigation";
+import { miniAppLifecycleManager } from "../federation/MiniAppLifecycleManager";
+import { miniAppStateStore } from "../federation/MiniAppStateStore";
+import { chat } from "../chat";
+import { useTenant } from "../tenant/TenantContext";
+import type { IdentityProviderConfig } from "../tenant/TenantContext";
 
 export interface UserInfo {
   uid: string;
@@ -19,23 +45,62 @@ export interface UserInfo {
   photoURL?: string;
   role: string;
   permissions: string[];
+  /** Whether the user confirmed their email address */
+  emailVerified?: boolean;
 }
 
+/**
+ * Why the session was ended without the user logging out
+ */
+export type LogoutReason =
+  | "SESSION_EXPIRED"
+  | "SESSION_REVOKED"
+  | "REFRESH_FAILED"
+  | "IDLE_TIMEOUT";
+
 export interface AuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
   userToken: string | null;
   userInfo: UserInfo | null;
+  /** Every account signed in on this device, most recently used first */
+  accounts: UserInfo[];
+  logoutReason: LogoutReason | null;
   login: (email: string, password: string) => Promise<void>;
+  loginWithProvider: (provider: IdentityProviderConfig) => Promise<void>;
   register: (name: string, email: string, password: string) => Promise<void>;
-  logout: () => Promise<void>;
+  /** Log out the active account, with a reason when the app did it for the user */
+  logout: (reason?: LogoutReason) => Promise<void>;
+  switchAccount: (uid: string) => Promise<void>;
+  removeAccount: (uid: string) => Promise<void>;
   fetchProfile: () => Promise<void>;
   updateProfile: (displayName?: string, photoURL?: string) => Promise<void>;
+  uploadAvatar: (fileUri: string, mimeType?: string) => Promise<void>;
   deleteAccount: () => Promise<void>;
+  /** Start exporting the user's data, the backend emails a link when it is ready */
+  requestDataExport: () => Promise<userApi.DataExport>;
+  /** Devices the user is signed in on, this one included */
+  getSessions: () => Promise<userApi.UserSession[]>;
+  revokeSession: (sessionId: string) => Promise<void>;
+  revokeOtherSessions: () => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (resetToken: string, newPassword: string) => Promise<void>;
+  sendVerificationEmail: () => Promise<void>;
+  verifyEmail: (verificationToken: string) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Refresh this long before the access token expires
+const REFRESH_LEEWAY_MS = 60 * 1000;
+
+const LOGOUT_REASON_MESSAGES: Record<LogoutReason, AuthErrorMessageKey> = {
+  SESSION_EXPIRED: "auth.error.sessionExpired",
+  SESSION_REVOKED: "auth.error.sessionRevoked",
+  REFRESH_FAILED: "auth.error.refreshFailed",
+  IDLE_TIMEOUT: "auth.error.idleTimeout",
+};
+
 const STORAGE_KEYS = {
   TOKEN: "@super_app_token",
   TOKEN_TIMESTAMP: "@super_app_token_timestamp",
@@ -49,22 +114,106 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
   const [isLoading, setIsLoading] = useState(true);
   const [userToken, setUserToken] = useState<string | null>(null);
   const [userInfo, setUserInfo] = useState<UserInfo | null>(null);
+  const [accounts, setAccounts] = useState<UserInfo[]>([]);
+  const [logoutReason, setLogoutReason] = useState<LogoutReason | null>(null);
+  // Current session for native event handlers, which outlive renders
+  const session = useRef<{ token: string | null; userInfo: UserInfo | null }>({
+    token: null,
+    userInfo: null,
+  });
+  // Auth operations started here that have not finished yet
+  const pendingOperations = useRef(0);
+  const reconcileRequested = useRef(false);
+  const reconcileId = useRef(0);
+  // Why native ended the session, reported with the event and shown once synced
+  const nativeLogoutReason = useRef<LogoutReason | null>(null);
+  // Language of error toasts, read by callbacks registered once
+  const { currentTenant } = useTenant();
+  const errorLanguage = useRef<AuthErrorLanguage>(DEFAULT_AUTH_ERROR_LANGUAGE);
+  errorLanguage.current =
+    currentTenant?.config.language ?? DEFAULT_AUTH_ERROR_LANGUAGE;
 
   // Load saved auth state on mount
   useEffect(() => {
     initializeAuth();
   }, []);
 
+  // Attach the current token to every Host SDK api request
+  useEffect(() => {
+    api.setToken(userToken ?? "");
+  }, [userToken]);
+
+  useEffect(() => {
+    api.setRefreshHandler(refreshSession);
+    api.setSessionRevokedHandler(handleSessionRevoked);
+    return () => {
+      api.setRefreshHandler(null);
+      api.setSessionRevokedHandler(null);
+    };
+  }, []);
+
+  // Keychain can change without this provider, e.g. natively, from a Mini App or a push
+  useEffect(() => {
+    return onAuthStateChanged((authState) => {
+      if (authState.reason) {
+        nativeLogoutReason.current = authState.reason;
+      }
+      if (pendingOperations.current > 0) {
+        reconcileRequested.current = true;
+        return;
+      }
+      reconcileWithNative();
+    });
+  }, []);
+
+  // Each session registers the device, so a revocation reaches it as a silent push
+  useEffect(() => {
+    if (!userInfo?.uid) return;
+
+    const register = (pushToken: string | null) => {
+      if (!pushToken) return;
+      userApi.registerPushToken(pushToken).catch((error) =>
+        console.error('[AuthContext] Failed to register push token:', error)
+      );
+    };
+
+    NativeAuthModule.getPushToken().then(register, () => {});
+    return onPushTokenChanged(register);
+  }, [userInfo?.uid]);
+
+  // Refresh proactively shortly before the access token expires
+  useEffect(() => {
+    const expiry = userToken ? getTokenExpiry(userToken) : null;
+    if (!expiry) return;
+
+    const delay = Math.max(expiry - Date.now() - REFRESH_LEEWAY_MS, 0);
+    const timer = setTimeout(() => {
+      console.log('[AuthContext] Access token about to expire, refreshing...');
+      api.refreshToken();
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [userToken]);
+
   const initializeAuth = async () => {
+    beginAuthOperation();
     try {
       console.log('[AuthContext] Initializing authentication...');
       
+      try {
+        await SecureStorage.migrateLegacyCredentials();
+      } catch (error) {
+        console.error('[AuthContext] Failed to migrate saved credentials:', error);
+      }
+      
       // Load auth state from Keychain (via native module)
       await loadAuthState();
+      await loadAccounts();
     } catch (error) {
       console.error('[AuthContext] Failed to initialize auth:', error);
     } finally {
       setIsLoading(false);
+      endAuthOperation();
     }
   };
 
@@ -73,25 +222,13 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
       // Load from Keychain via native module
       const authState = await NativeAuthModule.loadAuthState();
       
-      if (authState?.token && authState?.userInfo && authState?.timestamp) {
-        // Check if token is expired
-        if (!isTokenExpired(authState.timestamp)) {
-          const user = authState.userInfo;
-          
-          // Ensure permissions field exists
-          if (!user.permissions) {
-            user.permissions = [];
+      if (authState?.token && authState?.userInfo) {
+        try {
+          if (await activateSession(authState)) {
+            console.log('[AuthContext] ✓ Loaded auth state from Keychain');
           }
-          
-          setUserToken(authState.token);
-          setUserInfo(user);
-          setIsAuthenticated(true);
-          
-          console.log('[AuthContext] ✓ Loaded auth state from Keychain');
-        } else {
-          // Token expired, clear storage
-          console.log('[AuthContext] Token expired, clearing auth state');
-          await clearAuthState();
+        } catch (error) {
+          await forceLogout(getLogoutReason(error));
         }
       } else {
         console.log('[AuthContext] No auth state found');
@@ -101,6 +238,252 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
     }
   };
 
+  /**
+   * Make a session loaded from Keychain the current one
+   * Resolves false if it could not be refreshed for now, rejects if it can no longer be
+   */
+  const activateSession = async (authState: AuthStateData): Promise<boolean> => {
+    if (!authState.token || !authState.userInfo) return false;
+
+    const user = authState.userInfo;
+    
+    // Ensure permissions field exists
+    if (!user.permissions) {
+      user.permissions = [];
+    }
+    
+    api.setToken(authState.token);
+    
+    // Expired or about to - refresh before restoring the session
+    let token: string | null = authState.token;
+    if (isTokenExpired(authState.token, authState.timestamp, REFRESH_LEEWAY_MS)) {
+      console.log('[AuthContext] Token expired, refreshing session...');
+      token = await refreshActivatedSession(authState.token);
+    }
+    
+    if (!token) return false;
+    
+    applySession(token, user);
+    return true;
+  };
+
+  /**
+   * Set the current session, or sign out with `null`
+   * The Host SDK api gets the token straight away so no request goes out with the old one
+   */
+  const applySession = (token: string | null, user: UserInfo | null) => {
+    session.current = { token, userInfo: user };
+    api.setToken(token ?? "");
+    setUserToken(token);
+    setUserInfo(user);
+    setIsAuthenticated(!!token && !!user);
+  };
+
+  /**
+   * Native events caused while an auth operation runs are handled once all
+   * operations have finished, so they cannot undo the state an operation is about to set
+   */
+  const beginAuthOperation = () => {
+    pendingOperations.current += 1;
+  };
+
+  const endAuthOperation = () => {
+    pendingOperations.current -= 1;
+    if (pendingOperations.current === 0 && reconcileRequested.current) {
+      reconcileRequested.current = false;
+      reconcileWithNative();
+    }
+  };
+
+  /**
+   * Bring state in line with the session in Keychain after it changed outside this provider
+   */
+  const reconcileWithNative = async () => {
+    const id = ++reconcileId.current;
+
+    let authState: AuthStateData | null;
+    try {
+      authState = await NativeAuthModule.loadAuthState();
+    } catch (error) {
+      console.error('[AuthContext] Failed to sync auth state:', error);
+      return;
+    }
+
+    // A newer event arrived meanwhile, or an operation started that will set state itself
+    if (id !== reconcileId.current) return;
+    if (pendingOperations.current > 0) {
+      reconcileRequested.current = true;
+      return;
+    }
+
+    const current = session.current;
+    const reason = nativeLogoutReason.current;
+    nativeLogoutReason.current = null;
+
+    if (!authState?.token || !authState.userInfo) {
+      if (!current.userInfo) return;
+
+      console.log('[AuthContext] Signed out outside the app, syncing...');
+      beginAuthOperation();
+      try {
+        const continued = await endSession(current.userInfo.uid);
+        if (reason) {
+          if (continued) {
+            closeMiniApps();
+          } else {
+            setLogoutReason(reason);
+          }
+        }
+      } finally {
+        endAuthOperation();
+      }
+      if (reason) showLogoutReason(reason);
+      return;
+    }
+
+    const user: UserInfo = {
+      ...authState.userInfo,
+      permissions: authState.userInfo.permissions ?? [],
+    };
+    if (
+      authState.token === current.token &&
+      JSON.stringify(user) === JSON.stringify(current.userInfo)
+    ) {
+      // Another account on this device was signed out
+      if (reason) await loadAccounts();
+      return;
+    }
+
+    applySession(authState.token, user);
+    if (current.userInfo && current.userInfo.uid !== user.uid) {
+      miniAppLifecycleManager.onAccountSwitch();
+    }
+    setLogoutReason(null);
+    await loadAccounts();
+
+    console.log('[AuthContext] ✓ Synced auth state from native');
+  };
+
+  const loadAccounts = async (): Promise<UserInfo[]> => {
+    try {
+      const storedAccounts = await SecureStorage.getAccounts();
+      setAccounts(storedAccounts);
+      return storedAccounts;
+    } catch (error) {
+      console.error('[AuthContext] Failed to load accounts:', error);
+      return [];
+    }
+  };
+
+  /**
+   * Exchange the refresh token for a new access token
+   * Runs through `api.refreshToken()` so concurrent callers share one refresh
+   */
+  const refreshSession = async (): Promise<string | null> => {
+    beginAuthOperation();
+    try {
+      const refreshed = await NativeAuthModule.refreshSession();
+      session.current = { ...session.current, token: refreshed.token };
+      setUserToken(refreshed.token);
+      console.log('[AuthContext] ✓ Session refreshed');
+      return refreshed.token;
+    } catch (error: any) {
+      console.error('[AuthContext] Session refresh failed:', error);
+
+      // Offline or rate limited with a still valid token - keep the session and try again later
+      const currentToken = api.getToken();
+      if (
+        isRetryableAuthError(error) &&
+        currentToken &&
+        !isTokenExpired(currentToken)
+      ) {
+        return null;
+      }
+
+      await forceLogout(getLogoutReason(error));
+      return null;
+    } finally {
+      endAuthOperation();
+    }
+  };
+
+  /**
+   * Refresh the session native just made active
+   * Not through `api.refreshToken()`: this runs while continuing with another account,
+   * possibly inside the refresh that signed the previous one out, and would wait for itself
+   */
+  const refreshActivatedSession = async (token: string): Promise<string | null> => {
+    try {
+      const refreshed = await NativeAuthModule.refreshSession();
+      console.log('[AuthContext] ✓ Session refreshed');
+      return refreshed.token;
+    } catch (error: any) {
+      console.error('[AuthContext] Session refresh failed:', error);
+
+      // Offline or rate limited with a still valid token - keep the account and try again later
+      if (isRetryableAuthError(error) && !isTokenExpired(token)) {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  const getLogoutReason = (error: any): LogoutReason => {
+    switch (error?.code) {
+      case AuthErrorCode.NO_REFRESH_TOKEN:
+        return "SESSION_EXPIRED";
+      case AuthErrorCode.SESSION_REVOKED:
+        return "SESSION_REVOKED";
+      default:
+        return "REFRESH_FAILED";
+    }
+  };
+
+  /**
+   * End the session without user action, e.g. when it can no longer be refreshed
+   */
+  const forceLogout = async (reason: LogoutReason) => {
+    console.log(`[AuthContext] Forced logout: ${reason}`);
+
+    beginAuthOperation();
+    try {
+      const signedOutUser = await SecureStorage.getUserInfo().catch(() => null);
+      await clearAuthState();
+
+      if (await endSession(signedOutUser?.uid)) {
+        // Mini Apps on screen were opened by the signed out account
+        closeMiniApps();
+      } else {
+        setLogoutReason(reason);
+      }
+    } finally {
+      endAuthOperation();
+    }
+
+    showLogoutReason(reason);
+  };
+
+  /**
+   * End a session the backend reported as revoked, e.g. signed out from another device
+   */
+  const handleSessionRevoked = async () => {
+    if (!session.current.token) return;
+    await forceLogout("SESSION_REVOKED");
+  };
+
+  const showLogoutReason = (reason: LogoutReason) => {
+    Toast.show({
+      type: 'info',
+      text1: 'Signed Out',
+      text2: translateAuthMessage(
+        LOGOUT_REASON_MESSAGES[reason],
+        errorLanguage.current
+      ),
+      position: 'top',
+      visibilityTime: 4000,
+    });
+  };
+
   const saveAuthState = async (token: string, user: UserInfo) => {
     try {
       await SecureStorage.saveAuthState(token, user);
@@ -119,7 +502,64 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
     }
   };
 
+  // Mini App data belongs to the signed in user
+  const clearMiniAppData = async (uid?: string) => {
+    try {
+      if (uid) {
+        await clearAccountMiniAppStorage(uid);
+      } else {
+        await clearAllMiniAppStorage();
+      }
+      await miniAppStateStore.clear(uid);
+    } catch (error) {
+      console.error('[AuthContext] Failed to clear Mini App storage:', error);
+    }
+  };
+
+  /**
+   * After the active account signed out, continue with the most recently used
+   * other account, or end up signed out if there is none
+   * Resolves true if another account took over
+   */
+  const endSession = async (
+    signedOutUid?: string,
+    continueWithOtherAccount: boolean = true
+  ): Promise<boolean> => {
+    // Room subscriptions belong to the signed out account
+    chat.reset();
+
+    const remaining = await loadAccounts();
+
+    // The last account also takes data written before storage was per account
+    await clearMiniAppData(remaining.length > 0 ? signedOutUid : undefined);
+
+    for (const account of continueWithOtherAccount ? remaining : []) {
+      try {
+        const authState = await NativeAuthModule.switchAccount(account.uid);
+        const activated = await activateSession(authState).catch(async () => {
+          // Its session cannot be refreshed anymore, sign it out of this device as well
+          await clearAuthState();
+          await clearMiniAppData(account.uid);
+          return false;
+        });
+        if (activated) {
+          miniAppLifecycleManager.onAccountSwitch();
+          await loadAccounts();
+          console.log('[AuthContext] ✓ Continued with another account');
+          return true;
+        }
+      } catch (error) {
+        console.error('[AuthContext] Failed to continue with another account:', error);
+      }
+    }
+
+    applySession(null, null);
+    setAccounts([]);
+    return false;
+  };
+
   const login = async (email: string, password: string) => {
+    beginAuthOperation();
     try {
       console.log('[AuthContext] Logging in via native module...');
       
@@ -129,15 +569,20 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
       // Get token from Keychain
       const token = await SecureStorage.getToken();
       
-      setUserToken(token);
-      setUserInfo(user);
-      setIsAuthenticated(true);
+      // Signed in to an additional account
+      if (isAuthenticated) {
+        miniAppLifecycleManager.onAccountSwitch();
+      }
+      
+      applySession(token, user);
+      setLogoutReason(null);
+      await loadAccounts();
       
       console.log('[AuthContext] ✓ Login successful');
       
 
     } catch (error: any) {
-      const errorMessage = getAuthErrorMessage(error);
+      const errorMessage = getAuthErrorMessage(error, errorLanguage.current);
       console.error('[AuthContext] Login failed:', errorMessage, error);
       
       // Show error toast
@@ -150,10 +595,53 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
       });
       
       throw error;
+    } finally {
+      endAuthOperation();
+    }
+  };
+
+  const loginWithProvider = async (provider: IdentityProviderConfig) => {
+    beginAuthOperation();
+    try {
+      console.log(`[AuthContext] Logging in with ${provider.name}...`);
+      
+      // Native module runs the PKCE flow and saves the session to Keychain
+      const user = await NativeAuthModule.loginWithProvider(provider);
+      const token = await SecureStorage.getToken();
+      
+      // Signed in to an additional account
+      if (isAuthenticated) {
+        miniAppLifecycleManager.onAccountSwitch();
+      }
+      
+      applySession(token, user);
+      setLogoutReason(null);
+      await loadAccounts();
+      
+      console.log('[AuthContext] ✓ Provider login successful');
+    } catch (error: any) {
+      const errorMessage = getAuthErrorMessage(error, errorLanguage.current);
+      console.error('[AuthContext] Provider login failed:', errorMessage, error);
+      
+      // Closing the browser is not worth an error toast
+      if (error?.code !== AuthErrorCode.OAUTH_CANCELLED) {
+        Toast.show({
+          type: 'error',
+          text1: 'Login Failed',
+          text2: errorMessage,
+          position: 'top',
+          visibilityTime: 4000,
+        });
+      }
+      
+      throw error;
+    } finally {
+      endAuthOperation();
     }
   };
 
   const register = async (name: string, email: string, password: string) => {
+    beginAuthOperation();
     try {
       console.log('[AuthContext] Signing up via native module...');
       
@@ -163,14 +651,19 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
       // Get token from Keychain
       const token = await SecureStorage.getToken();
       
-      setUserToken(token);
-      setUserInfo(user);
-      setIsAuthenticated(true);
+      // Signed in to an additional account
+      if (isAuthenticated) {
+        miniAppLifecycleManager.onAccountSwitch();
+      }
+      
+      applySession(token, user);
+      setLogoutReason(null);
+      await loadAccounts();
       
       console.log('[AuthContext] ✓ Signup successful');
       
     } catch (error: any) {
-      const errorMessage = getAuthErrorMessage(error);
+      const errorMessage = getAuthErrorMessage(error, errorLanguage.current);
       console.error('[AuthContext] Register failed:', errorMessage, error);
       
       // Show error toast
@@ -183,24 +676,31 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
       });
       
       throw error;
+    } finally {
+      endAuthOperation();
     }
   };
 
-  const logout = async () => {
+  const logout = async (reason?: LogoutReason) => {
+    // A timed out device goes back to Login rather than into another signed in account
+    const continueWithOtherAccount = reason !== "IDLE_TIMEOUT";
+
+    beginAuthOperation();
     try {
       console.log('[AuthContext] Logging out via native module...');
       
-      // Call native logout - it clears Keychain
+      // Call native logout - it clears the active account from Keychain
       await NativeAuthModule.logout();
-      
-      setUserToken(null);
-      setUserInfo(null);
-      setIsAuthenticated(false);
+      const continued = await endSession(userInfo?.uid, continueWithOtherAccount);
+      if (reason) {
+        if (!continued) setLogoutReason(reason);
+        showLogoutReason(reason);
+      }
       
       console.log('[AuthContext] ✓ Logout successful');
       
     } catch (error: any) {
-      const errorMessage = getAuthErrorMessage(error);
+      const errorMessage = getAuthErrorMessage(error, errorLanguage.current);
       console.error('[AuthContext] Logout failed:', errorMessage, error);
       
       // Show error toast
@@ -213,32 +713,116 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
       
       // Still clear local state even if native logout fails
       await clearAuthState();
-      setUserToken(null);
-      setUserInfo(null);
-      setIsAuthenticated(false);
+      await endSession(userInfo?.uid, continueWithOtherAccount);
+    } finally {
+      endAuthOperation();
     }
   };
 
+  const switchAccount = async (uid: string) => {
+    if (uid === userInfo?.uid) return;
+
+    beginAuthOperation();
+    try {
+      console.log('[AuthContext] Switching account...');
+      
+      const authState = await NativeAuthModule.switchAccount(uid);
+      let activated: boolean;
+      try {
+        activated = await activateSession(authState);
+      } catch (error) {
+        // The account can no longer be used, sign it out and continue with another one
+        await forceLogout(getLogoutReason(error));
+        return;
+      }
+      if (!activated) {
+        await loadAccounts();
+        return;
+      }
+      
+      miniAppLifecycleManager.onAccountSwitch();
+      await loadAccounts();
+      
+      console.log('[AuthContext] ✓ Switched account');
+    } catch (error: any) {
+      const errorMessage = getAuthErrorMessage(error, errorLanguage.current);
+      console.error('[AuthContext] Switch account failed:', errorMessage, error);
+      
+      Toast.show({
+        type: 'error',
+        text1: 'Switch Failed',
+        text2: errorMessage,
+        position: 'top',
+      });
+      
+      await loadAccounts();
+      throw error;
+    } finally {
+      endAuthOperation();
+    }
+  };
+
+  /**
+   * Sign an account out of this device, the active one logs out
+   */
+  const removeAccount = async (uid: string) => {
+    if (uid === userInfo?.uid) {
+      await logout();
+      return;
+    }
+
+    beginAuthOperation();
+    try {
+      await SecureStorage.removeAccount(uid);
+      await clearMiniAppData(uid);
+      await loadAccounts();
+    } catch (error) {
+      console.error("[AuthContext] Remove account failed:", error);
+      throw error;
+    } finally {
+      endAuthOperation();
+    }
+  };
+
+  /**
+   * Errors from user API calls, which leave showing them to their callers
+   */
+  const showUserApiError = (title: string, error: unknown) => {
+    Toast.show({
+      type: "error",
+      text1: title,
+      text2: getAuthErrorMessage(error, errorLanguage.current),
+      position: "top",
+      visibilityTime: 4000,
+    });
+  };
+
+  const applyProfile = async (profile: userApi.UserProfile) => {
+    const user: UserInfo = {
+      uid: profile.uid,
+      email: profile.email,
+      displayName: profile.displayName,
+      photoURL: profile.photoURL,
+      role: profile.role,
+      permissions: profile.permissions ?? [],
+      emailVerified: profile.emailVerified,
+    };
+
+    session.current = { ...session.current, userInfo: user };
+    setUserInfo(user);
+    await SecureStorage.saveUserInfo(user);
+  };
+
   const fetchProfile = async () => {
     if (!userToken) {
       throw new Error("No token available");
     }
 
     try {
-      const profile = await userApi.getProfile(userToken);
-      const user: UserInfo = {
-        uid: profile.uid,
-        email: profile.email,
-        displayName: profile.displayName,
-        photoURL: profile.photoURL,
-        role: profile.role,
-        permissions: profile.permissions ?? [],
-      };
-
-      setUserInfo(user);
-      await SecureStorage.saveUserInfo(user);
+      await applyProfile(await userApi.getProfile());
     } catch (error) {
       console.error("[AuthContext] Fetch profile failed:", error);
+      showUserApiError("Error", error);
       throw error;
     }
   };
@@ -249,24 +833,30 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
     }
 
     try {
-      const updatedProfile = await userApi.updateProfile(userToken, {
-        displayName,
-        photoURL,
-      });
-
-      const user: UserInfo = {
-        uid: updatedProfile.uid,
-        email: updatedProfile.email,
-        displayName: updatedProfile.displayName,
-        photoURL: updatedProfile.photoURL,
-        role: updatedProfile.role,
-        permissions: updatedProfile.permissions ?? [],
-      };
-
-      setUserInfo(user);
-      await SecureStorage.saveUserInfo(user);
+      await applyProfile(
+        await userApi.updateProfile({
+          displayName,
+          photoURL,
+        })
+      );
     } catch (error) {
       console.error("[AuthContext] Update profile failed:", error);
+      showUserApiError("Error", error);
+      throw error;
+    }
+  };
+
+  const uploadAvatar = async (fileUri: string, mimeType?: string) => {
+    if (!userToken) {
+      throw new Error("No token available");
+    }
+
+    try {
+      await applyProfile(await userApi.uploadAvatar(fileUri, mimeType));
+      console.log("[AuthContext] ✓ Profile photo updated");
+    } catch (error) {
+      console.error("[AuthContext] Upload avatar failed:", error);
+      showUserApiError("Upload Failed", error);
       throw error;
     }
   };
@@ -277,10 +867,130 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
     }
 
     try {
-      await userApi.deleteAccount(userToken);
+      await userApi.deleteAccount();
       await logout();
     } catch (error) {
       console.error("[AuthContext] Delete account failed:", error);
+      showUserApiError("Error", error);
+      throw error;
+    }
+  };
+
+  const requestDataExport = async (): Promise<userApi.DataExport> => {
+    if (!userToken) {
+      throw new Error("No token available");
+    }
+
+    try {
+      const dataExport = await userApi.requestDataExport();
+      console.log("[AuthContext] ✓ Data export requested");
+      return dataExport;
+    } catch (error) {
+      console.error("[AuthContext] Request data export failed:", error);
+      showUserApiError("Export Failed", error);
+      throw error;
+    }
+  };
+
+  const getSessions = async (): Promise<userApi.UserSession[]> => {
+    if (!userToken) {
+      throw new Error("No token available");
+    }
+
+    try {
+      return await userApi.getSessions();
+    } catch (error) {
+      console.error("[AuthContext] Load sessions failed:", error);
+      showUserApiError("Error", error);
+      throw error;
+    }
+  };
+
+  /**
+   * Sign another device out of this account
+   */
+  const revokeSession = async (sessionId: string) => {
+    if (!userToken) {
+      throw new Error("No token available");
+    }
+
+    try {
+      await userApi.revokeSession(sessionId);
+      console.log("[AuthContext] ✓ Session revoked");
+    } catch (error) {
+      console.error("[AuthContext] Revoke session failed:", error);
+      showUserApiError("Sign Out Failed", error);
+      throw error;
+    }
+  };
+
+  const revokeOtherSessions = async () => {
+    if (!userToken) {
+      throw new Error("No token available");
+    }
+
+    try {
+      await userApi.revokeOtherSessions();
+      console.log("[AuthContext] ✓ Other sessions revoked");
+    } catch (error) {
+      console.error("[AuthContext] Revoke other sessions failed:", error);
+      showUserApiError("Sign Out Failed", error);
+      throw error;
+    }
+  };
+
+  const requestPasswordReset = async (email: string) => {
+    try {
+      await userApi.requestPasswordReset(email);
+      console.log("[AuthContext] ✓ Password reset requested");
+    } catch (error) {
+      console.error("[AuthContext] Request password reset failed:", error);
+      showUserApiError("Error", error);
+      throw error;
+    }
+  };
+
+  const resetPassword = async (resetToken: string, newPassword: string) => {
+    try {
+      await userApi.resetPassword(resetToken, newPassword);
+      console.log("[AuthContext] ✓ Password reset");
+    } catch (error) {
+      console.error("[AuthContext] Reset password failed:", error);
+      showUserApiError("Error", error);
+      throw error;
+    }
+  };
+
+  const sendVerificationEmail = async () => {
+    if (!userToken) {
+      throw new Error("No token available");
+    }
+
+    try {
+      await userApi.sendVerificationEmail();
+      console.log("[AuthContext] ✓ Verification email sent");
+    } catch (error) {
+      console.error("[AuthContext] Send verification email failed:", error);
+      showUserApiError("Error", error);
+      throw error;
+    }
+  };
+
+  /**
+   * Confirm the email address, then reload the profile to pick up `emailVerified`
+   */
+  const verifyEmail = async (verificationToken: string) => {
+    if (!userToken) {
+      throw new Error("No token available");
+    }
+
+    try {
+      await userApi.verifyEmail(verificationToken);
+      await applyProfile(await userApi.getProfile());
+      console.log("[AuthContext] ✓ Email verified");
+    } catch (error) {
+      console.error("[AuthContext] Verify email failed:", error);
+      showUserApiError("Error", error);
       throw error;
     }
   };
@@ -292,12 +1002,26 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
         isLoading,
         userToken,
         userInfo,
+        accounts,
+        logoutReason,
         login,
+        loginWithProvider,
         register,
         logout,
+        switchAccount,
+        removeAccount,
         fetchProfile,
         updateProfile,
+        uploadAvatar,
         deleteAccount,
+        requestDataExport,
+        getSessions,
+        revokeSession,
+        revokeOtherSessions,
+        requestPasswordReset,
+        resetPassword,
+        sendVerificationEmail,
+        verifyEmail,
       }}
     >
       {children}
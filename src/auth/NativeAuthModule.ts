@@ -1,5 +1,6 @@
 import { NativeModules, NativeEventEmitter, Platform } from 'react-native';
-import type { UserInfo } from './AuthContext';
+import type { LogoutReason, UserInfo } from './AuthContext';
+import type { IdentityProviderConfig } from '../tenant/TenantContext';
 
 /**
  * Native Auth Module Interface
@@ -7,9 +8,15 @@ import type { UserInfo } from './AuthContext';
  * TypeScript interface for the native AuthModule
  */
 interface NativeAuthModuleType {
+  // Configuration
+  setApiBaseURL(baseURL: string): Promise<void>;
+  getPushToken(): Promise<string | null>;
+  
   // Authentication methods
   login(email: string, password: string): Promise<UserInfo>;
   signup(email: string, password: string, displayName?: string): Promise<UserInfo>;
+  loginWithProvider(provider: IdentityProviderConfig): Promise<UserInfo>;
+  refreshSession(): Promise<RefreshedSession>;
   logout(): Promise<void>;
   
   // Storage methods
@@ -17,17 +24,40 @@ interface NativeAuthModuleType {
   loadAuthState(): Promise<AuthStateData | null>;
   clearAuthState(): Promise<void>;
   
+  // Multiple accounts
+  getAccounts(): Promise<UserInfo[]>;
+  switchAccount(uid: string): Promise<AuthStateData>;
+  removeAccount(uid: string): Promise<void>;
+  
+  // Device owner authentication (biometrics / passcode)
+  getDeviceAuthType(): Promise<DeviceAuthType>;
+  authenticateDeviceOwner(reason: string): Promise<boolean>;
+  
+  // Remember me (email only)
+  saveRememberedEmail(email: string): Promise<void>;
+  getRememberedEmail(): Promise<string | null>;
+  clearRememberedEmail(): Promise<void>;
+  
   // Read-only methods for Mini Apps
   getAuthState(): Promise<AuthStateData>;
   hasToken(): Promise<boolean>;
   getTokenTimestamp(): Promise<number | null>;
 }
 
+export type DeviceAuthType = 'FaceID' | 'TouchID' | 'passcode' | 'none';
+
+export interface RefreshedSession {
+  token: string;
+  timestamp: number;
+}
+
 export interface AuthStateData {
   token?: string;
   userInfo?: UserInfo;
   timestamp?: number;
   isAuthenticated: boolean;
+  // Set on `auth_state_changed` when native ended a session, e.g. on a revocation push
+  reason?: LogoutReason;
 }
 
 // Get native module
@@ -46,6 +76,28 @@ const authEventEmitter = AuthModule ? new NativeEventEmitter(AuthModule) : null;
  * Provides TypeScript-safe interface to native authentication module
  */
 export const NativeAuthModule: NativeAuthModuleType = {
+  /**
+   * Point native auth requests (login, signup, refresh) at the resolved API base URL
+   */
+  async setApiBaseURL(baseURL: string): Promise<void> {
+    if (!AuthModule) {
+      throw new Error('AuthModule not available');
+    }
+    
+    return AuthModule.setApiBaseURL(baseURL);
+  },
+
+  /**
+   * Device token the backend sends silent pushes to (iOS), null until registered
+   */
+  async getPushToken(): Promise<string | null> {
+    if (!AuthModule) {
+      throw new Error('AuthModule not available');
+    }
+    
+    return AuthModule.getPushToken();
+  },
+
   /**
    * Login with email and password
    * Calls backend API and saves to Keychain automatically
@@ -70,6 +122,31 @@ export const NativeAuthModule: NativeAuthModuleType = {
     return AuthModule.signup(email, password, displayName || null);
   },
 
+  /**
+   * Sign in with an OpenID Connect identity provider
+   * Runs the authorization code flow with PKCE in the system browser,
+   * then creates a session from the ID token and saves it to Keychain
+   */
+  async loginWithProvider(provider: IdentityProviderConfig): Promise<UserInfo> {
+    if (!AuthModule) {
+      throw new Error('AuthModule not available');
+    }
+    
+    return AuthModule.loginWithProvider(provider);
+  },
+
+  /**
+   * Exchange the refresh token in Keychain for a new access token
+   * The new tokens are saved to Keychain automatically
+   */
+  async refreshSession(): Promise<RefreshedSession> {
+    if (!AuthModule) {
+      throw new Error('AuthModule not available');
+    }
+    
+    return AuthModule.refreshSession();
+  },
+
   /**
    * Logout - clear all auth data from Keychain
    */
@@ -105,7 +182,7 @@ export const NativeAuthModule: NativeAuthModuleType = {
   },
 
   /**
-   * Clear authentication state from Keychain
+   * Clear the active session from Keychain, other signed-in accounts are kept
    */
   async clearAuthState(): Promise<void> {
     if (!AuthModule) {
@@ -115,6 +192,98 @@ export const NativeAuthModule: NativeAuthModuleType = {
     return AuthModule.clearAuthState();
   },
 
+  /**
+   * Accounts signed in on this device, most recently used first
+   */
+  async getAccounts(): Promise<UserInfo[]> {
+    if (!AuthModule) {
+      return [];
+    }
+    
+    const accounts = await AuthModule.getAccounts();
+    return accounts || [];
+  },
+
+  /**
+   * Make another signed-in account the active session
+   * Its tokens are moved into the active Keychain slot
+   */
+  async switchAccount(uid: string): Promise<AuthStateData> {
+    if (!AuthModule) {
+      throw new Error('AuthModule not available');
+    }
+    
+    return AuthModule.switchAccount(uid);
+  },
+
+  /**
+   * Sign an account that is not active out of this device
+   */
+  async removeAccount(uid: string): Promise<void> {
+    if (!AuthModule) {
+      throw new Error('AuthModule not available');
+    }
+    
+    return AuthModule.removeAccount(uid);
+  },
+
+  /**
+   * Get how the device owner can be verified, 'none' if no passcode is set
+   */
+  async getDeviceAuthType(): Promise<DeviceAuthType> {
+    if (!AuthModule) {
+      return 'none';
+    }
+    
+    return AuthModule.getDeviceAuthType();
+  },
+
+  /**
+   * Verify the device owner with biometrics or passcode
+   * Resolves false if the user cancels
+   */
+  async authenticateDeviceOwner(reason: string): Promise<boolean> {
+    if (!AuthModule) {
+      throw new Error('AuthModule not available');
+    }
+    
+    return AuthModule.authenticateDeviceOwner(reason);
+  },
+
+  /**
+   * Save the email to prefill on the login screen
+   */
+  async saveRememberedEmail(email: string): Promise<void> {
+    if (!AuthModule) {
+      throw new Error('AuthModule not available');
+    }
+    
+    return AuthModule.saveRememberedEmail(email);
+  },
+
+  /**
+   * Get the remembered email
+   */
+  async getRememberedEmail(): Promise<string | null> {
+    if (!AuthModule) {
+      return null;
+    }
+    
+    const email = await AuthModule.getRememberedEmail();
+    return email || null;
+  },
+
+  /**
+   * Forget the remembered email
+   */
+  async clearRememberedEmail(): Promise<void> {
+    if (!AuthModule) {
+      throw new Error('AuthModule not available');
+    }
+    
+    return AuthModule.clearRememberedEmail();
+  },
+
   /**
    * Get current authentication state (read-only)
    */
@@ -169,4 +338,22 @@ export function onAuthStateChanged(
   return () => subscription.remove();
 }
 
+/**
+ * Listen for the device push token, delivered once APNs registration finished
+ */
+export function onPushTokenChanged(
+  callback: (token: string) => void
+): () => void {
+  if (!authEventEmitter) {
+    return () => {};
+  }
+
+  const subscription = authEventEmitter.addListener(
+    'push_token_changed',
+    (event: { token: string }) => callback(event.token)
+  );
+
+  return () => subscription.remove();
+}
+
 export default NativeAuthModule;
@@ -1,3 +1,4 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { NativeAuthModule } from './NativeAuthModule';
 import type { UserInfo } from './AuthContext';
 
@@ -8,6 +9,13 @@ import type { UserInfo } from './AuthContext';
  * No fallback - Keychain only for maximum security.
  */
 
+// "Remember me" entries older versions kept in AsyncStorage, password base64 encoded
+const LEGACY_KEYS = {
+  SAVED_EMAIL: '@saved_email',
+  SAVED_PASSWORD: '@saved_password',
+  REMEMBER_ME: '@remember_me',
+};
+
 export const SecureStorage = {
   /**
    * Save authentication token
@@ -65,7 +73,72 @@ export const SecureStorage = {
   },
 
   /**
-   * Clear all auth data
+   * Accounts signed in on this device, most recently used first
+   */
+  async getAccounts(): Promise<UserInfo[]> {
+    return NativeAuthModule.getAccounts();
+  },
+
+  /**
+   * Sign a non-active account out of this device
+   */
+  async removeAccount(uid: string): Promise<void> {
+    await NativeAuthModule.removeAccount(uid);
+    console.log('[SecureStorage] ✓ Removed account from Keychain');
+  },
+
+  /**
+   * Remember the email for the login screen - passwords are never stored,
+   * the session itself is kept by the refresh token in Keychain
+   */
+  async saveRememberedEmail(email: string): Promise<void> {
+    await NativeAuthModule.saveRememberedEmail(email);
+  },
+
+  /**
+   * Get the remembered email
+   */
+  async getRememberedEmail(): Promise<string | null> {
+    return NativeAuthModule.getRememberedEmail();
+  },
+
+  /**
+   * Forget the remembered email
+   */
+  async clearRememberedEmail(): Promise<void> {
+    await NativeAuthModule.clearRememberedEmail();
+  },
+
+  /**
+   * Delete "remember me" passwords stored by older versions,
+   * moving a remembered email to Keychain. Safe to run on every launch.
+   */
+  async migrateLegacyCredentials(): Promise<void> {
+    const [savedEmail, savedPassword, rememberMe] = await Promise.all([
+      AsyncStorage.getItem(LEGACY_KEYS.SAVED_EMAIL),
+      AsyncStorage.getItem(LEGACY_KEYS.SAVED_PASSWORD),
+      AsyncStorage.getItem(LEGACY_KEYS.REMEMBER_ME),
+    ]);
+
+    if (savedEmail === null && savedPassword === null && rememberMe === null) {
+      return;
+    }
+
+    // Keeping the email is best effort, the password has to go either way
+    if (rememberMe === 'true' && savedEmail) {
+      try {
+        await this.saveRememberedEmail(savedEmail);
+      } catch (error) {
+        console.error('[SecureStorage] Failed to move remembered email to Keychain:', error);
+      }
+    }
+
+    await AsyncStorage.multiRemove(Object.values(LEGACY_KEYS));
+    console.log('[SecureStorage] ✓ Removed legacy saved credentials');
+  },
+
+  /**
+   * Clear the active session, other signed-in accounts are kept
    */
   async clear(): Promise<void> {
     await NativeAuthModule.clearAuthState();
@@ -0,0 +1,101 @@
+/**
+ * Auth Error Messages
+ *
+ * Translations for the message keys in `AUTH_ERROR_INFO`.
+ * `{seconds}` is replaced with the wait time of rate limited requests.
+ */
+
+export type AuthErrorLanguage = 'en' | 'vi';
+
+export type AuthErrorMessageKey =
+  | 'auth.error.invalidConfig'
+  | 'auth.error.invalidResponse'
+  | 'auth.error.requestFailed'
+  | 'auth.error.network'
+  | 'auth.error.loginFailed'
+  | 'auth.error.signupFailed'
+  | 'auth.error.logoutFailed'
+  | 'auth.error.sessionExpired'
+  | 'auth.error.sessionRevoked'
+  | 'auth.error.refreshFailed'
+  | 'auth.error.idleTimeout'
+  | 'auth.error.accountNotFound'
+  | 'auth.error.switchFailed'
+  | 'auth.error.oauthCancelled'
+  | 'auth.error.oauthFailed'
+  | 'auth.error.storage'
+  | 'auth.error.deviceAuthUnavailable'
+  | 'auth.error.deviceAuthFailed'
+  | 'auth.error.rateLimited'
+  | 'auth.error.rateLimitedRetryAfter'
+  | 'auth.error.accountLocked'
+  | 'auth.error.emailUnverified'
+  | 'auth.error.unknown';
+
+export const DEFAULT_AUTH_ERROR_LANGUAGE: AuthErrorLanguage = 'en';
+
+export const AUTH_ERROR_MESSAGES: Record<
+  AuthErrorLanguage,
+  Record<AuthErrorMessageKey, string>
+> = {
+  en: {
+    'auth.error.invalidConfig': 'Invalid API configuration',
+    'auth.error.invalidResponse': 'Server returned invalid response',
+    'auth.error.requestFailed': 'Authentication failed',
+    'auth.error.network': 'Network connection error. Please check your internet.',
+    'auth.error.loginFailed': 'Login failed. Please try again.',
+    'auth.error.signupFailed': 'Signup failed. Please try again.',
+    'auth.error.logoutFailed': 'Logout failed. Please try again.',
+    'auth.error.sessionExpired': 'Your session has expired. Please log in again.',
+    'auth.error.sessionRevoked': 'You were signed out from another device. Please log in again.',
+    'auth.error.refreshFailed': "We couldn't keep you signed in. Please log in again.",
+    'auth.error.idleTimeout': 'You were signed out after a period of inactivity.',
+    'auth.error.accountNotFound': 'This account is no longer signed in. Please add it again.',
+    'auth.error.switchFailed': 'Could not switch accounts. Please try again.',
+    'auth.error.oauthCancelled': 'Sign-in was cancelled.',
+    'auth.error.oauthFailed': 'Sign-in with your provider failed. Please try again.',
+    'auth.error.storage': 'Could not access secure storage on this device.',
+    'auth.error.deviceAuthUnavailable': 'Set up Face ID, Touch ID or a passcode to continue.',
+    'auth.error.deviceAuthFailed': 'Could not verify it is you. Please try again.',
+    'auth.error.rateLimited': 'Too many attempts. Please wait a moment and try again.',
+    'auth.error.rateLimitedRetryAfter': 'Too many attempts. Please try again in {seconds} seconds.',
+    'auth.error.accountLocked': 'Your account is locked. Please contact support.',
+    'auth.error.emailUnverified': 'Please verify your email address first.',
+    'auth.error.unknown': 'An unexpected error occurred',
+  },
+  vi: {
+    'auth.error.invalidConfig': 'Cấu hình API không hợp lệ',
+    'auth.error.invalidResponse': 'Máy chủ trả về phản hồi không hợp lệ',
+    'auth.error.requestFailed': 'Xác thực thất bại',
+    'auth.error.network': 'Lỗi kết nối mạng. Vui lòng kiểm tra internet.',
+    'auth.error.loginFailed': 'Đăng nhập thất bại. Vui lòng thử lại.',
+    'auth.error.signupFailed': 'Đăng ký thất bại. Vui lòng thử lại.',
+    'auth.error.logoutFailed': 'Đăng xuất thất bại. Vui lòng thử lại.',
+    'auth.error.sessionExpired': 'Phiên đăng nhập đã hết hạn. Vui lòng đăng nhập lại.',
+    'auth.error.sessionRevoked': 'Bạn đã bị đăng xuất từ thiết bị khác. Vui lòng đăng nhập lại.',
+    'auth.error.refreshFailed': 'Không thể duy trì đăng nhập. Vui lòng đăng nhập lại.',
+    'auth.error.idleTimeout': 'Bạn đã bị đăng xuất do không hoạt động trong một thời gian.',
+    'auth.error.accountNotFound': 'Tài khoản này không còn đăng nhập. Vui lòng thêm lại.',
+    'auth.error.switchFailed': 'Không thể chuyển tài khoản. Vui lòng thử lại.',
+    'auth.error.oauthCancelled': 'Đã hủy đăng nhập.',
+    'auth.error.oauthFailed': 'Đăng nhập qua nhà cung cấp thất bại. Vui lòng thử lại.',
+    'auth.error.storage': 'Không thể truy cập bộ nhớ bảo mật trên thiết bị.',
+    'auth.error.deviceAuthUnavailable': 'Hãy thiết lập Face ID, Touch ID hoặc mật mã để tiếp tục.',
+    'auth.error.deviceAuthFailed': 'Không thể xác minh danh tính. Vui lòng thử lại.',
+    'auth.error.rateLimited': 'Quá nhiều lần thử. Vui lòng đợi một lát rồi thử lại.',
+    'auth.error.rateLimitedRetryAfter': 'Quá nhiều lần thử. Vui lòng thử lại sau {seconds} giây.',
+    'auth.error.accountLocked': 'Tài khoản của bạn đã bị khóa. Vui lòng liên hệ hỗ trợ.',
+    'auth.error.emailUnverified': 'Vui lòng xác minh địa chỉ email trước.',
+    'auth.error.unknown': 'Đã xảy ra lỗi không mong muốn',
+  },
+};
+
+/**
+ * Translate a message key, falling back to English
+ */
+export function translateAuthMessage(
+  key: AuthErrorMessageKey,
+  language: AuthErrorLanguage = DEFAULT_AUTH_ERROR_LANGUAGE
+): string {
+  return (AUTH_ERROR_MESSAGES[language] ?? AUTH_ERROR_MESSAGES[DEFAULT_AUTH_ERROR_LANGUAGE])[key];
+}
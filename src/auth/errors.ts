@@ -1,48 +1,126 @@
 /**
  * Auth Error Types
- * 
- * Error codes and types from native auth module
+ *
+ * Error codes and types from native auth module and user API
  */
 
+import {
+  DEFAULT_AUTH_ERROR_LANGUAGE,
+  translateAuthMessage,
+} from './errorMessages';
+import type { AuthErrorLanguage, AuthErrorMessageKey } from './errorMessages';
+
 export enum AuthErrorCode {
   // Native errors
   INVALID_URL = 'INVALID_URL',
   INVALID_RESPONSE = 'INVALID_RESPONSE',
   API_ERROR = 'API_ERROR',
   NETWORK_ERROR = 'NETWORK_ERROR',
-  
+
+  // Backend errors
+  RATE_LIMITED = 'RATE_LIMITED',
+  ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
+  EMAIL_UNVERIFIED = 'EMAIL_UNVERIFIED',
+  SESSION_REVOKED = 'SESSION_REVOKED',
+
   // Module errors
   LOGIN_ERROR = 'LOGIN_ERROR',
   SIGNUP_ERROR = 'SIGNUP_ERROR',
   LOGOUT_ERROR = 'LOGOUT_ERROR',
-  
+  REFRESH_ERROR = 'REFRESH_ERROR',
+  NO_REFRESH_TOKEN = 'NO_REFRESH_TOKEN',
+  ACCOUNT_NOT_FOUND = 'ACCOUNT_NOT_FOUND',
+  SWITCH_ERROR = 'SWITCH_ERROR',
+  OAUTH_CANCELLED = 'OAUTH_CANCELLED',
+  OAUTH_ERROR = 'OAUTH_ERROR',
+  DEVICE_AUTH_UNAVAILABLE = 'DEVICE_AUTH_UNAVAILABLE',
+  DEVICE_AUTH_FAILED = 'DEVICE_AUTH_FAILED',
+
   // Storage errors
   SAVE_ERROR = 'SAVE_ERROR',
   LOAD_ERROR = 'LOAD_ERROR',
   CLEAR_ERROR = 'CLEAR_ERROR',
-  
+
   // State errors
   GET_STATE_ERROR = 'GET_STATE_ERROR',
   CHECK_ERROR = 'CHECK_ERROR',
   TIMESTAMP_ERROR = 'TIMESTAMP_ERROR',
 }
 
+export interface AuthErrorInfo {
+  messageKey: AuthErrorMessageKey;
+  /** Trying the same action again may succeed */
+  retryable: boolean;
+}
+
+export const AUTH_ERROR_INFO: Record<AuthErrorCode, AuthErrorInfo> = {
+  [AuthErrorCode.INVALID_URL]: { messageKey: 'auth.error.invalidConfig', retryable: false },
+  [AuthErrorCode.INVALID_RESPONSE]: { messageKey: 'auth.error.invalidResponse', retryable: true },
+  [AuthErrorCode.API_ERROR]: { messageKey: 'auth.error.requestFailed', retryable: false },
+  [AuthErrorCode.NETWORK_ERROR]: { messageKey: 'auth.error.network', retryable: true },
+  [AuthErrorCode.RATE_LIMITED]: { messageKey: 'auth.error.rateLimited', retryable: true },
+  [AuthErrorCode.ACCOUNT_LOCKED]: { messageKey: 'auth.error.accountLocked', retryable: false },
+  [AuthErrorCode.EMAIL_UNVERIFIED]: { messageKey: 'auth.error.emailUnverified', retryable: false },
+  [AuthErrorCode.SESSION_REVOKED]: { messageKey: 'auth.error.sessionRevoked', retryable: false },
+  [AuthErrorCode.LOGIN_ERROR]: { messageKey: 'auth.error.loginFailed', retryable: true },
+  [AuthErrorCode.SIGNUP_ERROR]: { messageKey: 'auth.error.signupFailed', retryable: true },
+  [AuthErrorCode.LOGOUT_ERROR]: { messageKey: 'auth.error.logoutFailed', retryable: true },
+  [AuthErrorCode.REFRESH_ERROR]: { messageKey: 'auth.error.sessionExpired', retryable: false },
+  [AuthErrorCode.NO_REFRESH_TOKEN]: { messageKey: 'auth.error.sessionExpired', retryable: false },
+  [AuthErrorCode.ACCOUNT_NOT_FOUND]: { messageKey: 'auth.error.accountNotFound', retryable: false },
+  [AuthErrorCode.SWITCH_ERROR]: { messageKey: 'auth.error.switchFailed', retryable: true },
+  [AuthErrorCode.OAUTH_CANCELLED]: { messageKey: 'auth.error.oauthCancelled', retryable: true },
+  [AuthErrorCode.OAUTH_ERROR]: { messageKey: 'auth.error.oauthFailed', retryable: true },
+  [AuthErrorCode.DEVICE_AUTH_UNAVAILABLE]: { messageKey: 'auth.error.deviceAuthUnavailable', retryable: false },
+  [AuthErrorCode.DEVICE_AUTH_FAILED]: { messageKey: 'auth.error.deviceAuthFailed', retryable: true },
+  [AuthErrorCode.SAVE_ERROR]: { messageKey: 'auth.error.storage', retryable: true },
+  [AuthErrorCode.LOAD_ERROR]: { messageKey: 'auth.error.storage', retryable: true },
+  [AuthErrorCode.CLEAR_ERROR]: { messageKey: 'auth.error.storage', retryable: true },
+  [AuthErrorCode.GET_STATE_ERROR]: { messageKey: 'auth.error.storage', retryable: true },
+  [AuthErrorCode.CHECK_ERROR]: { messageKey: 'auth.error.storage', retryable: true },
+  [AuthErrorCode.TIMESTAMP_ERROR]: { messageKey: 'auth.error.storage', retryable: true },
+};
+
+const UNKNOWN_ERROR_INFO: AuthErrorInfo = {
+  messageKey: 'auth.error.unknown',
+  retryable: false,
+};
+
 export interface AuthError extends Error {
   code: AuthErrorCode | string;
   message: string;
+  messageKey: AuthErrorMessageKey;
+  retryable: boolean;
+  /** How long the server asked to wait before retrying */
+  retryAfterMs?: number;
+  /** HTTP status, for errors from the user API */
+  status?: number;
   nativeError?: any;
 }
 
+/**
+ * Look up message key and retryability of an error code
+ */
+export function getAuthErrorInfo(code: AuthErrorCode | string): AuthErrorInfo {
+  return AUTH_ERROR_INFO[code as AuthErrorCode] ?? UNKNOWN_ERROR_INFO;
+}
+
 /**
  * Create typed auth error
  */
 export function createAuthError(
   code: AuthErrorCode | string,
   message: string,
-  nativeError?: any
+  nativeError?: any,
+  options: { retryAfterMs?: number; status?: number } = {}
 ): AuthError {
+  const info = getAuthErrorInfo(code);
   const error = new Error(message) as AuthError;
   error.code = code;
+  error.messageKey = info.messageKey;
+  error.retryable = info.retryable;
+  error.retryAfterMs = options.retryAfterMs;
+  error.status = options.status;
   error.nativeError = nativeError;
   return error;
 }
@@ -55,34 +133,58 @@ export function isAuthError(error: any): error is AuthError {
 }
 
 /**
- * Get user-friendly error message
+ * Turn anything thrown by the native module or user API into an `AuthError`
+ * Native rejections carry extra fields such as `retryAfterMs` in `userInfo`
  */
-export function getAuthErrorMessage(error: any): string {
+export function toAuthError(error: any): AuthError {
+  if (isAuthError(error) && error.messageKey) {
+    return error;
+  }
+
   if (isAuthError(error)) {
-    switch (error.code) {
-      case AuthErrorCode.INVALID_URL:
-        return 'Invalid API configuration';
-      case AuthErrorCode.INVALID_RESPONSE:
-        return 'Server returned invalid response';
-      case AuthErrorCode.API_ERROR:
-        return error.message || 'Authentication failed';
-      case AuthErrorCode.NETWORK_ERROR:
-        return 'Network connection error. Please check your internet.';
-      case AuthErrorCode.LOGIN_ERROR:
-        return error.message || 'Login failed. Please try again.';
-      case AuthErrorCode.SIGNUP_ERROR:
-        return error.message || 'Signup failed. Please try again.';
-      default:
-        return error.message || 'An error occurred';
-    }
+    return createAuthError(error.code, error.message, error, {
+      retryAfterMs: (error as any).userInfo?.retryAfterMs,
+    });
+  }
+
+  return createAuthError('UNKNOWN', error?.message ?? '', error);
+}
+
+/**
+ * Check if the failed action may succeed when tried again
+ */
+export function isRetryableAuthError(error: any): boolean {
+  return toAuthError(error).retryable;
+}
+
+/**
+ * Get user-friendly error message in the given language
+ * Always translated, the server or native message stays on the error for logs
+ */
+export function getAuthErrorMessage(
+  error: any,
+  language: AuthErrorLanguage = DEFAULT_AUTH_ERROR_LANGUAGE
+): string {
+  const authError = toAuthError(error);
+  const info = getAuthErrorInfo(authError.code);
+
+  if (authError.code === AuthErrorCode.RATE_LIMITED && authError.retryAfterMs) {
+    const seconds = Math.ceil(authError.retryAfterMs / 1000);
+    return translateAuthMessage('auth.error.rateLimitedRetryAfter', language).replace(
+      '{seconds}',
+      String(seconds)
+    );
   }
-  
-  return error?.message || 'An unexpected error occurred';
+
+  return translateAuthMessage(info.messageKey, language);
 }
 
 export default {
   AuthErrorCode,
   createAuthError,
   isAuthError,
+  toAuthError,
+  isRetryableAuthError,
+  getAuthErrorInfo,
   getAuthErrorMessage,
 };
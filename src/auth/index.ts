@@ -6,24 +6,31 @@
 
 // Context
 export { AuthProvider, useAuth } from './AuthContext';
-export type { UserInfo, AuthContextType } from './AuthContext';
+export type { UserInfo, AuthContextType, LogoutReason } from './AuthContext';
+export { AppLockProvider, useAppLock } from './AppLockContext';
 
 // Native Module (for advanced usage)
 export { NativeAuthModule, onAuthStateChanged } from './NativeAuthModule';
-export type { AuthStateData } from './NativeAuthModule';
+export type { AuthStateData, DeviceAuthType, RefreshedSession } from './NativeAuthModule';
 
 // Error handling
 export {
   AuthErrorCode,
+  AUTH_ERROR_INFO,
   createAuthError,
   isAuthError,
+  toAuthError,
+  isRetryableAuthError,
+  getAuthErrorInfo,
   getAuthErrorMessage,
 } from './errors';
-export type { AuthError } from './errors';
+export type { AuthError, AuthErrorInfo } from './errors';
+export { AUTH_ERROR_MESSAGES, translateAuthMessage } from './errorMessages';
+export type { AuthErrorLanguage, AuthErrorMessageKey } from './errorMessages';
 
 // Token utilities
-export { isTokenExpired } from './tokenUtils';
+export { isTokenExpired, getTokenExpiry, decodeTokenClaims } from './tokenUtils';
 
 // User API
 export * as userApi from './userApi';
-export type { UserProfile, UpdateProfileData } from './userApi';
+export type { UserProfile, UpdateProfileData, DataExport, UserSession } from './userApi';
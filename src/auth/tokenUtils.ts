@@ -1,17 +1,47 @@
+import { decodeBase64, encodeUTF8 } from 'tweetnacl-util';
+
 /**
  * Token utilities
  *
- * Simple token management using timestamp for expiration check
- * Backend JWT tokens expire in 1 hour
+ * Expiry is read from the JWT `exp` claim. Tokens without one fall back to
+ * the time they were saved plus the backend's default lifetime of 1 hour.
+ */
+
+const DEFAULT_TOKEN_LIFETIME = 60 * 60 * 1000; // 1 hour in milliseconds
+
+/**
+ * Decode the payload of a JWT without verifying it (the backend verifies)
  */
+export function decodeTokenClaims(token: string): Record<string, any> | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
 
-const TOKEN_EXPIRATION_TIME = 60 * 60 * 1000; // 1 hour in milliseconds
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    return JSON.parse(encodeUTF8(decodeBase64(padded)));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get when a token expires (ms since epoch), or null if unknown
+ * @param savedAt - Timestamp when token was saved, used when the token has no `exp` claim
+ */
+export function getTokenExpiry(token: string, savedAt?: number): number | null {
+  const exp = decodeTokenClaims(token)?.exp;
+  if (typeof exp === 'number') {
+    return exp * 1000;
+  }
+  return savedAt ? savedAt + DEFAULT_TOKEN_LIFETIME : null;
+}
 
 /**
- * Check if token is expired based on saved timestamp
- * @param tokenTimestamp - Timestamp when token was saved (from getTokenTimestamp)
+ * Check if token is expired, or will be within `leewayMs`
+ * Tokens with unknown expiry are treated as expired
  */
-export function isTokenExpired(tokenTimestamp: number): boolean {
-  const now = Date.now();
-  return now - tokenTimestamp > TOKEN_EXPIRATION_TIME;
+export function isTokenExpired(token: string, savedAt?: number, leewayMs = 0): boolean {
+  const expiry = getTokenExpiry(token, savedAt);
+  return expiry === null || Date.now() + leewayMs >= expiry;
 }
@@ -1,24 +1,25 @@
-import Toast from "react-native-toast-message";
+import { Platform } from "react-native";
+import { api } from "../host-sdk/api";
+import type { ApiResponse } from "../host-sdk/types";
+import { AuthErrorCode, createAuthError } from "./errors";
+import type { AuthError } from "./errors";
 
 /**
  * User Profile API Service
  * Handles user profile operations with backend
+ *
+ * Requests go through the shared Host SDK client, so they use the tenant's
+ * backend and the current session's token, and are retried once after a refresh on 401.
+ * Failures throw an AuthError, callers decide how to show them.
  */
 
-const API_BASE_URL = "https://super-app-case.web.app/api";
-
-/**
- * Show error toast notification
- */
-const showErrorToast = (message: string) => {
-  Toast.show({
-    type: "error",
-    text1: "Error",
-    text2: message,
-    position: "top",
-    visibilityTime: 4000,
-  });
-};
+// Backend error codes the app reacts to, anything else is an API_ERROR
+const BACKEND_ERROR_CODES: string[] = [
+  AuthErrorCode.RATE_LIMITED,
+  AuthErrorCode.ACCOUNT_LOCKED,
+  AuthErrorCode.EMAIL_UNVERIFIED,
+  AuthErrorCode.SESSION_REVOKED,
+];
 
 export interface UserProfile {
   uid: string;
@@ -29,6 +30,7 @@ export interface UserProfile {
   createdAt?: string;
   updatedAt?: string;
   permissions?: string[];
+  emailVerified?: boolean;
 }
 
 export interface UpdateProfileData {
@@ -36,116 +38,267 @@ export interface UpdateProfileData {
   photoURL?: string;
 }
 
-interface ApiResponse<T> {
+export interface DataExport {
+  id: string;
+  status: "pending" | "ready" | "failed";
+  requestedAt: string;
+  // Set once the export is ready
+  downloadUrl?: string;
+  expiresAt?: string;
+}
+
+/**
+ * A device the user is signed in on
+ */
+export interface UserSession {
+  id: string;
+  deviceName: string;
+  platform?: string;
+  createdAt: string;
+  lastActiveAt: string;
+  location?: string;
+  // The session making the request
+  current: boolean;
+}
+
+/**
+ * Response body of the user endpoints
+ */
+interface UserApiEnvelope<T> {
   success: boolean;
   data?: T;
   message?: string;
-  error?: string;
+  error?: string | { code?: string; message?: string };
 }
 
 /**
- * Get current user's profile
+ * Map a failed request to an AuthError, by backend error code or HTTP status
  */
-export const getProfile = async (token: string): Promise<UserProfile> => {
-  try {
-    const response = await fetch(`${API_BASE_URL}/user/profile`, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`,
-      },
-    });
-
-    const result: ApiResponse<UserProfile> = await response.json();
-
-    if (!result.success || !result.data) {
-      const errorMessage = result.error || "Failed to fetch profile";
-      showErrorToast(errorMessage);
-      throw new Error(errorMessage);
-    }
-
-    return result.data;
-  } catch (error) {
-    if (error instanceof Error) {
-      const errorMsg = error.message || "";
-      if (!errorMsg.includes("Failed to fetch profile")) {
-        showErrorToast("Network error. Please check your connection.");
-      }
-      throw error;
-    }
-    showErrorToast("An unexpected error occurred");
-    throw new Error("An unexpected error occurred");
+const toUserApiError = (
+  response: ApiResponse<UserApiEnvelope<unknown>>,
+  fallbackMessage: string
+): AuthError => {
+  const envelope = response.data;
+  const envelopeError =
+    typeof envelope?.error === "object" ? envelope.error : undefined;
+  const errorCode = response.errorCode ?? envelopeError?.code;
+  const message =
+    envelopeError?.message ??
+    (typeof envelope?.error === "string" ? envelope.error : undefined) ??
+    response.error ??
+    fallbackMessage;
+
+  let code: string = AuthErrorCode.API_ERROR;
+  if (response.status === undefined) {
+    code = AuthErrorCode.NETWORK_ERROR;
+  } else if (errorCode && BACKEND_ERROR_CODES.includes(errorCode)) {
+    code = errorCode;
+  } else if (response.status === 429) {
+    code = AuthErrorCode.RATE_LIMITED;
+  } else if (response.status === 423) {
+    code = AuthErrorCode.ACCOUNT_LOCKED;
+  } else if (response.success && envelope?.success !== false) {
+    // 2xx without the expected body
+    code = AuthErrorCode.INVALID_RESPONSE;
   }
+
+  return createAuthError(code, message, undefined, {
+    status: response.status,
+    retryAfterMs: response.retryAfterMs,
+  });
 };
 
+/**
+ * Unwrap `data` from a user endpoint response, throwing an AuthError on failure
+ */
+const unwrap = async <T>(
+  request: Promise<ApiResponse<UserApiEnvelope<T>>>,
+  fallbackMessage: string
+): Promise<T> => {
+  const response = await request;
+  if (!response.success || !response.data?.success) {
+    throw toUserApiError(response, fallbackMessage);
+  }
+  return response.data.data as T;
+};
+
+/**
+ * Like `unwrap`, for endpoints whose data must be present
+ */
+const unwrapRequired = async <T>(
+  request: Promise<ApiResponse<UserApiEnvelope<T>>>,
+  fallbackMessage: string
+): Promise<T> => {
+  const data = await unwrap(request, fallbackMessage);
+  if (!data) {
+    throw createAuthError(AuthErrorCode.INVALID_RESPONSE, fallbackMessage);
+  }
+  return data;
+};
+
+/**
+ * Get current user's profile
+ */
+export const getProfile = (): Promise<UserProfile> =>
+  unwrapRequired(
+    api.get<UserApiEnvelope<UserProfile>>("/user/profile"),
+    "Failed to fetch profile"
+  );
+
 /**
  * Update user's profile
  */
-export const updateProfile = async (
-  token: string,
-  data: UpdateProfileData
+export const updateProfile = (data: UpdateProfileData): Promise<UserProfile> =>
+  unwrapRequired(
+    api.put<UserApiEnvelope<UserProfile>>("/user/profile", data),
+    "Failed to update profile"
+  );
+
+/**
+ * Upload a new profile photo from a local file URI, e.g. from the image picker
+ * Resolves the profile with the new `photoURL`
+ */
+export const uploadAvatar = (
+  fileUri: string,
+  mimeType: string = "image/jpeg"
 ): Promise<UserProfile> => {
-  try {
-    const response = await fetch(`${API_BASE_URL}/user/profile`, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`,
-      },
-      body: JSON.stringify(data),
-    });
-
-    const result: ApiResponse<UserProfile> = await response.json();
-
-    if (!result.success || !result.data) {
-      const errorMessage = result.error || "Failed to update profile";
-      showErrorToast(errorMessage);
-      throw new Error(errorMessage);
-    }
-
-    return result.data;
-  } catch (error) {
-    if (error instanceof Error) {
-      const errorMsg = error.message || "";
-      if (!errorMsg.includes("Failed to update profile")) {
-        showErrorToast("Network error. Please check your connection.");
-      }
-      throw error;
-    }
-    showErrorToast("An unexpected error occurred");
-    throw new Error("An unexpected error occurred");
-  }
+  const form = new FormData();
+  form.append("avatar", {
+    uri: fileUri,
+    type: mimeType,
+    name: `avatar.${mimeType.split("/")[1] ?? "jpg"}`,
+  } as any);
+
+  return unwrapRequired(
+    api.post<UserApiEnvelope<UserProfile>>("/user/avatar", form, {
+      headers: { "Content-Type": "multipart/form-data" },
+    }),
+    "Failed to upload photo"
+  );
 };
 
 /**
  * Delete user's account
  */
-export const deleteAccount = async (token: string): Promise<void> => {
-  try {
-    const response = await fetch(`${API_BASE_URL}/user/account`, {
-      method: "DELETE",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`,
-      },
-    });
-
-    const result: ApiResponse<null> = await response.json();
-
-    if (!result.success) {
-      const errorMessage = result.error || "Failed to delete account";
-      showErrorToast(errorMessage);
-      throw new Error(errorMessage);
-    }
-  } catch (error) {
-    if (error instanceof Error) {
-      const errorMsg = error.message || "";
-      if (!errorMsg.includes("Failed to delete account")) {
-        showErrorToast("Network error. Please check your connection.");
-      }
-      throw error;
-    }
-    showErrorToast("An unexpected error occurred");
-    throw new Error("An unexpected error occurred");
-  }
+export const deleteAccount = async (): Promise<void> => {
+  await unwrap(
+    api.delete<UserApiEnvelope<null>>("/user/account"),
+    "Failed to delete account"
+  );
+};
+
+/**
+ * Start an export of everything stored about the user
+ * The backend emails a link as well once the export is ready
+ */
+export const requestDataExport = (): Promise<DataExport> =>
+  unwrapRequired(
+    api.post<UserApiEnvelope<DataExport>>("/user/export", {}),
+    "Failed to request data export"
+  );
+
+/**
+ * Check on an export started with `requestDataExport`
+ */
+export const getDataExport = (exportId: string): Promise<DataExport> =>
+  unwrapRequired(
+    api.get<UserApiEnvelope<DataExport>>(
+      `/user/export/${encodeURIComponent(exportId)}`
+    ),
+    "Failed to load data export"
+  );
+
+/**
+ * Email a password reset link (superapp://reset-password?token=...)
+ */
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  await unwrap(
+    api.post<UserApiEnvelope<null>>("/auth/forgot-password", { email }),
+    "Failed to request password reset"
+  );
+};
+
+/**
+ * Set a new password with the token from the reset link
+ */
+export const resetPassword = async (
+  resetToken: string,
+  newPassword: string
+): Promise<void> => {
+  await unwrap(
+    api.post<UserApiEnvelope<null>>("/auth/reset-password", {
+      token: resetToken,
+      newPassword,
+    }),
+    "Failed to reset password"
+  );
+};
+
+/**
+ * Send the signed in user another verification email
+ */
+export const sendVerificationEmail = async (): Promise<void> => {
+  await unwrap(
+    api.post<UserApiEnvelope<null>>("/user/send-verification", {}),
+    "Failed to send verification email"
+  );
+};
+
+/**
+ * Confirm the email address with the token from the verification link
+ */
+export const verifyEmail = async (verificationToken: string): Promise<void> => {
+  await unwrap(
+    api.post<UserApiEnvelope<null>>("/auth/verify-email", {
+      token: verificationToken,
+    }),
+    "Failed to verify email"
+  );
+};
+
+/**
+ * List the sessions the user is signed in with, this device included
+ */
+export const getSessions = (): Promise<UserSession[]> =>
+  unwrapRequired(
+    api.get<UserApiEnvelope<UserSession[]>>("/auth/sessions"),
+    "Failed to load sessions"
+  );
+
+/**
+ * Sign another device out, its next request fails with SESSION_REVOKED
+ */
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  await unwrap(
+    api.delete<UserApiEnvelope<null>>(
+      `/auth/sessions/${encodeURIComponent(sessionId)}`
+    ),
+    "Failed to sign out device"
+  );
+};
+
+/**
+ * Register this device's push token with the current session,
+ * so the backend can tell it with a silent push when the session is revoked
+ */
+export const registerPushToken = async (pushToken: string): Promise<void> => {
+  await unwrap(
+    api.put<UserApiEnvelope<null>>("/auth/sessions/current/push-token", {
+      token: pushToken,
+      platform: Platform.OS,
+    }),
+    "Failed to register push token"
+  );
+};
+
+/**
+ * Sign out every device except this one
+ */
+export const revokeOtherSessions = async (): Promise<void> => {
+  await unwrap(
+    api.delete<UserApiEnvelope<null>>("/auth/sessions", {
+      query: { exceptCurrent: true },
+    }),
+    "Failed to sign out other devices"
+  );
 };
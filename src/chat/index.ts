@@ -21,15 +21,23 @@ import type {
 
 class ChatSDKImpl implements IChatSDK {
   private initialized = false;
+  private userId: string | null = null;
   private subscriptions = new Map<string, any>();
 
   /**
    * Initialize chat with user information
+   * Call again after an account switch - the previous user's room subscriptions are dropped
    */
   async init(user: ChatUser): Promise<void> {
+    if (this.userId && this.userId !== user.userId) {
+      this.subscriptions.forEach((subs: any[]) => subs.forEach((listener: any) => listener.remove()));
+      this.subscriptions.clear();
+    }
+
     try {
       await NativeChatModule.initialize(user);
       this.initialized = true;
+      this.userId = user.userId;
     } catch (error) {
       console.error('[ChatSDK] Initialization failed:', error);
       throw error;
@@ -225,6 +233,22 @@ class ChatSDKImpl implements IChatSDK {
     }
   }
 
+  /**
+   * Drop every room subscription and the signed in user, e.g. when the session ended
+   * Host only, Mini Apps call `init` again for the next user
+   */
+  reset(): void {
+    this.subscriptions.forEach((subs: any[], roomId: string) => {
+      subs.forEach((listener: any) => listener.remove());
+      NativeChatModule.unsubscribeFromRoom(roomId).catch((error) => {
+        console.error('[ChatSDK] Unsubscribe from room failed:', error);
+      });
+    });
+    this.subscriptions.clear();
+    this.initialized = false;
+    this.userId = null;
+  }
+
   /**
    * Ensure SDK is initialized before use
    */
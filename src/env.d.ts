@@ -0,0 +1,9 @@
+/**
+ * Values injected at build time by the DefinePlugin in rspack.config.mjs
+ */
+declare const process: {
+  env: {
+    MINI_APP_SIGNING_PUBLIC_KEY?: string;
+    MANIFEST_PUBLIC_KEY?: string;
+  };
+};
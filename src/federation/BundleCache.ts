@@ -0,0 +1,200 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ScriptManager } from '@callstack/repack/client';
+import { getMiniAppVersion, getRemotes } from './remotes.config';
+
+/**
+ * Bundle Cache
+ * Prefetches Mini App containers and chunks to disk so they open without network.
+ * Files are stored by Re.Pack's native ScriptManager, this tracks their size and
+ * last use and evicts least recently used Mini Apps once the size limit is exceeded.
+ */
+
+const STORAGE_KEY = '@super_app_bundle_cache';
+const DEFAULT_MAX_CACHE_BYTES = 50 * 1024 * 1024; // 50 MB
+
+interface CacheEntry {
+  version: string;
+  scriptIds: string[];
+  sizeBytes: number;
+  lastUsedAt: number;
+}
+
+export class BundleCache {
+  private maxBytes: number;
+  private entries: Record<string, CacheEntry> = {};
+  private hydrated = false;
+
+  constructor(maxBytes: number = DEFAULT_MAX_CACHE_BYTES) {
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Download containers and chunks for the given Mini Apps in the background
+   */
+  async prefetch(appNames: string[]): Promise<void> {
+    await this.hydrate();
+
+    for (const appName of appNames) {
+      try {
+        if (this.isCached(appName)) {
+          continue;
+        }
+
+        const scriptIds = getScriptIds(appName);
+        let sizeBytes = 0;
+
+        for (const [scriptId, caller] of scriptIds) {
+          sizeBytes += await measure(scriptId, caller);
+          await ScriptManager.shared.prefetchScript(scriptId, caller);
+        }
+
+        // Prefetched but not opened yet - least recently used
+        this.entries[appName] = {
+          version: getMiniAppVersion(appName),
+          scriptIds: scriptIds.map(toCacheKey),
+          sizeBytes,
+          lastUsedAt: this.entries[appName]?.lastUsedAt ?? 0,
+        };
+        console.log(`[BundleCache] Prefetched ${appName} (${sizeBytes} bytes)`);
+      } catch (error) {
+        console.error(`[BundleCache] Failed to prefetch ${appName}:`, error);
+      }
+    }
+
+    await this.evict();
+    await this.persist();
+  }
+
+  /**
+   * Mark a Mini App as used, recording it if it was loaded without prefetching
+   */
+  async touch(appName: string): Promise<void> {
+    await this.hydrate();
+
+    if (!this.isCached(appName)) {
+      const scriptIds = getScriptIds(appName);
+      let sizeBytes = 0;
+      for (const [scriptId, caller] of scriptIds) {
+        sizeBytes += await measure(scriptId, caller);
+      }
+      this.entries[appName] = {
+        version: getMiniAppVersion(appName),
+        scriptIds: scriptIds.map(toCacheKey),
+        sizeBytes,
+        lastUsedAt: Date.now(),
+      };
+    } else {
+      this.entries[appName].lastUsedAt = Date.now();
+    }
+
+    await this.evict(appName);
+    await this.persist();
+  }
+
+  /**
+   * Check if the current version of a Mini App is on disk
+   */
+  isCached(appName: string): boolean {
+    const entry = this.entries[appName];
+    return !!entry && entry.version === getMiniAppVersion(appName);
+  }
+
+  /**
+   * Get total size of cached Mini Apps
+   */
+  getSize(): number {
+    return Object.values(this.entries).reduce((total, entry) => total + entry.sizeBytes, 0);
+  }
+
+  /**
+   * Remove all cached Mini App bundles
+   */
+  async clear(): Promise<void> {
+    await this.hydrate();
+    const scriptIds = Object.values(this.entries).flatMap(entry => entry.scriptIds);
+    this.entries = {};
+    if (scriptIds.length) {
+      await ScriptManager.shared.invalidateScripts(scriptIds);
+    }
+    await this.persist();
+    console.log('[BundleCache] Cache cleared');
+  }
+
+  private async hydrate(): Promise<void> {
+    if (this.hydrated) return;
+
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.entries = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.error('[BundleCache] Failed to load cache index:', error);
+    } finally {
+      this.hydrated = true;
+    }
+  }
+
+  /**
+   * Evict least recently used Mini Apps until the cache fits the size limit
+   */
+  private async evict(keepAppName?: string): Promise<void> {
+    const candidates = Object.keys(this.entries)
+      .filter(appName => appName !== keepAppName)
+      .sort((a, b) => this.entries[a].lastUsedAt - this.entries[b].lastUsedAt);
+
+    while (this.getSize() > this.maxBytes && candidates.length) {
+      const appName = candidates.shift()!;
+      const { scriptIds } = this.entries[appName];
+      delete this.entries[appName];
+
+      try {
+        await ScriptManager.shared.invalidateScripts(scriptIds);
+        console.log(`[BundleCache] Evicted ${appName}`);
+      } catch (error) {
+        console.error(`[BundleCache] Failed to evict ${appName}:`, error);
+      }
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error('[BundleCache] Failed to save cache index:', error);
+    }
+  }
+}
+
+/**
+ * Container and declared chunks of a Mini App as [scriptId, caller] pairs
+ */
+const getScriptIds = (appName: string): Array<[string, string | undefined]> => {
+  const chunks = getRemotes()[appName]?.chunks ?? [];
+  return [
+    [appName, undefined],
+    ...chunks.map((chunkId): [string, string] => [chunkId, appName]),
+  ];
+};
+
+/**
+ * Cache key Re.Pack stores a script under
+ */
+const toCacheKey = ([scriptId, caller]: [string, string | undefined]): string =>
+  caller ? `${caller}_${scriptId}` : scriptId;
+
+/**
+ * Get download size of a script from its Content-Length, 0 when unknown
+ */
+const measure = async (scriptId: string, caller?: string): Promise<number> => {
+  try {
+    const script = await ScriptManager.shared.resolveScript(scriptId, caller);
+    const { url, query } = script.locator;
+    const response = await fetch(query ? `${url}?${query}` : url, { method: 'HEAD' });
+    return Number(response.headers.get('content-length')) || 0;
+  } catch (error) {
+    return 0;
+  }
+};
+
+export const bundleCache = new BundleCache();
@@ -0,0 +1,72 @@
+import React from 'react';
+import { AppState, StyleSheet, View } from 'react-native';
+import { RemoteLoader, toMiniAppUserInfo } from './RemoteLoader';
+import { miniAppKeepAlivePool } from './MiniAppKeepAlivePool';
+import type { KeepAliveSnapshot } from './MiniAppKeepAlivePool';
+import { useAuth } from '../auth/AuthContext';
+
+/**
+ * Mini App Keep-Alive Host
+ * Renders every Mini App in the keep-alive pool above the navigator. The open one is laid
+ * over its MiniAppScreen, the others stay mounted but hidden so they resume where they were.
+ */
+export const MiniAppKeepAliveHost: React.FC = () => {
+  const { userToken, userInfo } = useAuth();
+  const [snapshot, setSnapshot] = React.useState<KeepAliveSnapshot>(() =>
+    miniAppKeepAlivePool.getSnapshot()
+  );
+
+  React.useEffect(() => miniAppKeepAlivePool.subscribe(setSnapshot), []);
+
+  // Kept instances belong to the account that opened them
+  React.useEffect(() => {
+    miniAppKeepAlivePool.clear();
+  }, [userInfo?.uid]);
+
+  // Mini Apps are told through the lifecycle manager, the pool frees their memory
+  React.useEffect(() => {
+    const subscription = AppState.addEventListener('memoryWarning', () =>
+      miniAppKeepAlivePool.trim()
+    );
+    return () => subscription.remove();
+  }, []);
+
+  // Memoize props for stability
+  const miniAppUserInfo = React.useMemo(() => toMiniAppUserInfo(userInfo), [userInfo]);
+
+  const { appNames, activeApp, frame } = snapshot;
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents="box-none">
+      {appNames.map(appName => {
+        const isVisible = appName === activeApp && !!frame;
+        return (
+          <View
+            key={appName}
+            style={isVisible ? [styles.instance, frame] : styles.hidden}
+            pointerEvents={isVisible ? 'auto' : 'none'}
+          >
+            <RemoteLoader
+              appName={appName}
+              userToken={userToken || ''}
+              userInfo={miniAppUserInfo}
+              theme="light"
+              language="vi"
+              accountId={userInfo?.uid}
+            />
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  instance: {
+    position: 'absolute',
+    backgroundColor: '#FFFFFF',
+  },
+  hidden: {
+    display: 'none',
+  },
+});
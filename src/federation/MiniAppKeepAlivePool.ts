@@ -0,0 +1,176 @@
+import { getRemotes } from './remotes.config';
+
+/**
+ * Mini App Keep-Alive Pool
+ * Keeps recently used Mini Apps mounted after their screen closes, so returning to one
+ * resumes it as it was. Bounded by instance count and estimated memory, least recently
+ * used instances are evicted first and can come back with `restoreState`.
+ */
+
+export interface KeepAlivePolicy {
+  /** Most Mini Apps kept mounted at once, the open one included */
+  maxInstances: number;
+  /** Budget for the estimated memory of all kept instances */
+  maxMemoryBytes: number;
+}
+
+export const DEFAULT_KEEP_ALIVE_POLICY: KeepAlivePolicy = {
+  maxInstances: 3,
+  maxMemoryBytes: 48 * 1024 * 1024, // 48 MB
+};
+
+// Estimate for remotes without `keepAliveMemoryBytes`
+const DEFAULT_INSTANCE_MEMORY_BYTES = 16 * 1024 * 1024; // 16 MB
+
+/**
+ * Where the open Mini App is shown, in window coordinates
+ */
+export interface MiniAppFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface KeepAliveEntry {
+  appName: string;
+  lastUsedAt: number;
+}
+
+export interface KeepAliveSnapshot {
+  /** Mounted Mini Apps, in the order they were first opened */
+  appNames: string[];
+  activeApp: string | null;
+  frame: MiniAppFrame | null;
+}
+
+type KeepAliveListener = (snapshot: KeepAliveSnapshot) => void;
+
+export class MiniAppKeepAlivePool {
+  private entries: KeepAliveEntry[] = [];
+  private activeApp: string | null = null;
+  private frame: MiniAppFrame | null = null;
+  private listeners: Set<KeepAliveListener> = new Set();
+
+  constructor(private policy: KeepAlivePolicy = DEFAULT_KEEP_ALIVE_POLICY) {}
+
+  /**
+   * Show a Mini App, mounting it if it is not kept alive yet
+   */
+  open(appName: string) {
+    const entry = this.entries.find(item => item.appName === appName);
+    if (entry) {
+      entry.lastUsedAt = Date.now();
+    } else {
+      this.entries.push({ appName, lastUsedAt: Date.now() });
+    }
+
+    this.activeApp = appName;
+    this.evict();
+    this.notify();
+  }
+
+  /**
+   * Hide a Mini App whose screen lost focus, it stays mounted until evicted
+   */
+  close(appName: string) {
+    if (this.activeApp !== appName) return;
+    this.activeApp = null;
+    this.notify();
+  }
+
+  /**
+   * Position the open Mini App over its screen
+   */
+  setFrame(frame: MiniAppFrame) {
+    if (
+      this.frame &&
+      this.frame.x === frame.x &&
+      this.frame.y === frame.y &&
+      this.frame.width === frame.width &&
+      this.frame.height === frame.height
+    ) {
+      return;
+    }
+    this.frame = frame;
+    this.notify();
+  }
+
+  /**
+   * Unmount everything except the open Mini App, e.g. on a memory warning
+   */
+  trim() {
+    const before = this.entries.length;
+    this.entries = this.entries.filter(entry => entry.appName === this.activeApp);
+    if (this.entries.length !== before) {
+      console.log(`[KeepAlive] Trimmed ${before - this.entries.length} Mini Apps`);
+      this.notify();
+    }
+  }
+
+  /**
+   * Unmount every Mini App, e.g. when the signed in account changed
+   */
+  clear() {
+    if (this.entries.length === 0) return;
+    this.entries = [];
+    this.activeApp = null;
+    this.notify();
+  }
+
+  isKeptAlive(appName: string): boolean {
+    return this.entries.some(entry => entry.appName === appName);
+  }
+
+  getSnapshot(): KeepAliveSnapshot {
+    return {
+      appNames: this.entries.map(entry => entry.appName),
+      activeApp: this.activeApp,
+      frame: this.frame,
+    };
+  }
+
+  /**
+   * Listen to pool changes, returns a function that stops listening
+   */
+  subscribe(listener: KeepAliveListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Evict least recently used Mini Apps until the pool fits its policy
+   * The open Mini App is never evicted
+   */
+  private evict() {
+    const byLastUse = [...this.entries].sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+    const kept = new Set<string>();
+    let memoryBytes = 0;
+
+    for (const { appName } of byLastUse) {
+      const instanceBytes =
+        getRemotes()[appName]?.keepAliveMemoryBytes ?? DEFAULT_INSTANCE_MEMORY_BYTES;
+      const fits =
+        kept.size < this.policy.maxInstances &&
+        memoryBytes + instanceBytes <= this.policy.maxMemoryBytes;
+
+      if (fits || appName === this.activeApp) {
+        kept.add(appName);
+        memoryBytes += instanceBytes;
+      } else {
+        console.log(`[KeepAlive] Evicting ${appName}`);
+      }
+    }
+
+    this.entries = this.entries.filter(entry => kept.has(entry.appName));
+  }
+
+  private notify() {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export const miniAppKeepAlivePool = new MiniAppKeepAlivePool();
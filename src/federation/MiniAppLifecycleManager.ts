@@ -1,28 +1,50 @@
+import { AppState } from 'react-native';
+import type { AppStateStatus } from 'react-native';
+import type { MiniAppLifecycleEvent } from '../host-sdk/types';
+
 /**
  * Mini App Lifecycle Manager
- * Manages lifecycle events for Mini Apps (focus, blur, background, foreground)
+ * Manages lifecycle events for Mini Apps (mount, unmount, focus, blur, background, foreground,
+ * accountSwitch, idleTimeout, memoryWarning, beforeExit)
+ *
+ * Every event goes through here: AppState via `attachToAppState`, navigation focus from
+ * MiniAppScreen and mounting from RemoteLoader. Mini Apps receive them through
+ * `sdk.lifecycle.subscribe` and their `MiniAppProps` callbacks.
+ *
+ * Events are tracked per instance: a Mini App shown full screen uses its app name as
+ * instance id, embedded ones get their own id and follow the focus of their parent.
  */
 
-type LifecycleEvent = 'focus' | 'blur' | 'background' | 'foreground';
+type LifecycleEvent = MiniAppLifecycleEvent;
 type LifecycleListener = () => void;
 
+interface EmbeddedInstance {
+  appName: string;
+  // Instance the Mini App is embedded in, none for host screens
+  parentId?: string;
+}
+
 export class MiniAppLifecycleManager {
   private listeners: Map<string, Map<LifecycleEvent, Set<LifecycleListener>>> = new Map();
   private activeMiniApp: string | null = null;
+  private embeddedInstances: Map<string, EmbeddedInstance> = new Map();
+  private focusedInstances: Set<string> = new Set();
+  private mountedInstances: Set<string> = new Set();
+  private isInBackground = false;
 
   /**
-   * Register a lifecycle listener for a Mini App
+   * Register a lifecycle listener for a Mini App instance
    */
   addEventListener(
-    miniAppName: string,
+    instanceId: string,
     event: LifecycleEvent,
     listener: LifecycleListener
   ): () => void {
-    if (!this.listeners.has(miniAppName)) {
-      this.listeners.set(miniAppName, new Map());
+    if (!this.listeners.has(instanceId)) {
+      this.listeners.set(instanceId, new Map());
     }
 
-    const appListeners = this.listeners.get(miniAppName)!;
+    const appListeners = this.listeners.get(instanceId)!;
     if (!appListeners.has(event)) {
       appListeners.set(event, new Set());
     }
@@ -31,7 +53,7 @@ export class MiniAppLifecycleManager {
 
     // Return unsubscribe function
     return () => {
-      this.removeEventListener(miniAppName, event, listener);
+      this.removeEventListener(instanceId, event, listener);
     };
   }
 
@@ -39,24 +61,31 @@ export class MiniAppLifecycleManager {
    * Remove a lifecycle listener
    */
   removeEventListener(
-    miniAppName: string,
+    instanceId: string,
     event: LifecycleEvent,
     listener: LifecycleListener
   ) {
-    const appListeners = this.listeners.get(miniAppName);
+    const appListeners = this.listeners.get(instanceId);
     if (appListeners) {
       const eventListeners = appListeners.get(event);
       if (eventListeners) {
         eventListeners.delete(listener);
+        if (eventListeners.size === 0) {
+          appListeners.delete(event);
+        }
+      }
+      // Drop instances without listeners so account switches only reach live ones
+      if (appListeners.size === 0) {
+        this.listeners.delete(instanceId);
       }
     }
   }
 
   /**
-   * Emit a lifecycle event for a Mini App
+   * Emit a lifecycle event for a Mini App instance
    */
-  private emit(miniAppName: string, event: LifecycleEvent) {
-    const appListeners = this.listeners.get(miniAppName);
+  private emit(instanceId: string, event: LifecycleEvent) {
+    const appListeners = this.listeners.get(instanceId);
     if (appListeners) {
       const eventListeners = appListeners.get(event);
       if (eventListeners) {
@@ -72,62 +101,208 @@ export class MiniAppLifecycleManager {
   }
 
   /**
-   * Notify that a Mini App has gained focus
+   * Register a Mini App embedded in a host screen or in another Mini App,
+   * returns a function that unregisters it
+   */
+  registerEmbeddedInstance(
+    instanceId: string,
+    appName: string,
+    parentId?: string
+  ): () => void {
+    if (this.embeddedInstances.has(instanceId)) {
+      console.warn(
+        `[MiniAppLifecycle] ${instanceId} is embedded twice, give each one a different instanceKey`
+      );
+    }
+    this.embeddedInstances.set(instanceId, { appName, parentId });
+
+    // Listeners the unmounted instance left behind must not receive events anymore
+    return () => {
+      this.embeddedInstances.delete(instanceId);
+      this.focusedInstances.delete(instanceId);
+      this.clearMiniAppListeners(instanceId);
+    };
+  }
+
+  /**
+   * An instance and every instance embedded in it, at any depth
+   */
+  private getInstanceTree(instanceId: string): string[] {
+    const tree = [instanceId];
+    for (let i = 0; i < tree.length; i++) {
+      this.embeddedInstances.forEach((instance, id) => {
+        if (instance.parentId === tree[i] && !tree.includes(id)) {
+          tree.push(id);
+        }
+      });
+    }
+    return tree;
+  }
+
+  /**
+   * Notify that a Mini App instance finished loading and is rendered
+   */
+  onMiniAppMount(instanceId: string) {
+    this.mountedInstances.add(instanceId);
+    this.emit(instanceId, 'mount');
+    console.log(`[MiniAppLifecycle] ${instanceId} mounted`);
+  }
+
+  /**
+   * Notify that a Mini App instance is about to be removed from the screen
+   */
+  onMiniAppUnmount(instanceId: string) {
+    this.mountedInstances.delete(instanceId);
+    this.focusedInstances.delete(instanceId);
+    if (this.activeMiniApp === instanceId) {
+      this.activeMiniApp = null;
+    }
+    this.emit(instanceId, 'unmount');
+    console.log(`[MiniAppLifecycle] ${instanceId} unmounted`);
+  }
+
+  /**
+   * Notify that the user is leaving a Mini App, e.g. going back from its screen
+   * Listeners run synchronously, before the screen closes, embedded instances included
+   */
+  onMiniAppBeforeExit(instanceId: string) {
+    this.getInstanceTree(instanceId).forEach(id => this.emit(id, 'beforeExit'));
+    console.log(`[MiniAppLifecycle] ${instanceId} exiting`);
+  }
+
+  /**
+   * Notify that a Mini App instance has gained focus, along with the ones embedded in it
    */
-  onMiniAppFocus(miniAppName: string) {
-    if (this.activeMiniApp && this.activeMiniApp !== miniAppName) {
-      // Previous Mini App lost focus
-      this.emit(this.activeMiniApp, 'blur');
+  onMiniAppFocus(instanceId: string) {
+    if (!this.embeddedInstances.has(instanceId)) {
+      if (this.activeMiniApp && this.activeMiniApp !== instanceId) {
+        // Previous Mini App lost focus
+        this.onMiniAppBlur(this.activeMiniApp);
+      }
+      this.activeMiniApp = instanceId;
     }
 
-    this.activeMiniApp = miniAppName;
-    this.emit(miniAppName, 'focus');
-    console.log(`[MiniAppLifecycle] ${miniAppName} focused`);
+    this.getInstanceTree(instanceId).forEach(id => {
+      this.focusedInstances.add(id);
+      this.emit(id, 'focus');
+    });
+    console.log(`[MiniAppLifecycle] ${instanceId} focused`);
   }
 
   /**
-   * Notify that a Mini App has lost focus
+   * Notify that a Mini App instance has lost focus, along with the ones embedded in it
    */
-  onMiniAppBlur(miniAppName: string) {
-    if (this.activeMiniApp === miniAppName) {
+  onMiniAppBlur(instanceId: string) {
+    if (this.activeMiniApp === instanceId) {
       this.activeMiniApp = null;
     }
-    this.emit(miniAppName, 'blur');
-    console.log(`[MiniAppLifecycle] ${miniAppName} blurred`);
+
+    this.getInstanceTree(instanceId).forEach(id => {
+      this.focusedInstances.delete(id);
+      this.emit(id, 'blur');
+    });
+    console.log(`[MiniAppLifecycle] ${instanceId} blurred`);
+  }
+
+  /**
+   * Whether a Mini App instance currently has focus
+   */
+  isFocused(instanceId: string): boolean {
+    return this.focusedInstances.has(instanceId);
   }
 
   /**
    * Notify that the app went to background
    */
   onAppBackground() {
-    if (this.activeMiniApp) {
-      this.emit(this.activeMiniApp, 'background');
-      console.log(`[MiniAppLifecycle] ${this.activeMiniApp} backgrounded`);
-    }
+    this.isInBackground = true;
+    this.focusedInstances.forEach(instanceId => {
+      this.emit(instanceId, 'background');
+      console.log(`[MiniAppLifecycle] ${instanceId} backgrounded`);
+    });
   }
 
   /**
    * Notify that the app came to foreground
    */
   onAppForeground() {
-    if (this.activeMiniApp) {
-      this.emit(this.activeMiniApp, 'foreground');
-      console.log(`[MiniAppLifecycle] ${this.activeMiniApp} foregrounded`);
-    }
+    this.isInBackground = false;
+    this.focusedInstances.forEach(instanceId => {
+      this.emit(instanceId, 'foreground');
+      console.log(`[MiniAppLifecycle] ${instanceId} foregrounded`);
+    });
+  }
+
+  /**
+   * Ask every mounted Mini App to free memory it can rebuild
+   */
+  onMemoryWarning() {
+    this.mountedInstances.forEach((instanceId) => {
+      this.emit(instanceId, 'memoryWarning');
+    });
+    console.log('[MiniAppLifecycle] Memory warning');
+  }
+
+  /**
+   * Forward AppState changes and memory warnings, returns a function that stops it
+   * Call once from the app root
+   */
+  attachToAppState(): () => void {
+    const changeSubscription = AppState.addEventListener(
+      'change',
+      (nextState: AppStateStatus) => {
+        // 'inactive' (e.g. app switcher on iOS) is not background yet
+        if (nextState === 'background' && !this.isInBackground) {
+          this.onAppBackground();
+        } else if (nextState === 'active' && this.isInBackground) {
+          this.onAppForeground();
+        }
+      }
+    );
+    const memorySubscription = AppState.addEventListener('memoryWarning', () =>
+      this.onMemoryWarning()
+    );
+
+    return () => {
+      changeSubscription.remove();
+      memorySubscription.remove();
+    };
+  }
+
+  /**
+   * Notify every Mini App that the signed in account changed,
+   * so they can drop state that belongs to the previous account
+   */
+  onAccountSwitch() {
+    this.listeners.forEach((_, instanceId) => {
+      this.emit(instanceId, 'accountSwitch');
+    });
+    console.log('[MiniAppLifecycle] Account switched');
+  }
+
+  /**
+   * Notify the focused Mini Apps that the idle timeout passed,
+   * right before the app locks or signs out, so they can save what the user was doing
+   */
+  onIdleTimeout() {
+    this.focusedInstances.forEach(instanceId => {
+      this.emit(instanceId, 'idleTimeout');
+      console.log(`[MiniAppLifecycle] ${instanceId} timed out`);
+    });
   }
 
   /**
-   * Get the currently active Mini App
+   * Get the Mini App currently shown full screen
    */
   getActiveMiniApp(): string | null {
     return this.activeMiniApp;
   }
 
   /**
-   * Clear all listeners for a Mini App (cleanup on unmount)
+   * Clear all listeners for a Mini App instance (cleanup on unmount)
    */
-  clearMiniAppListeners(miniAppName: string) {
-    this.listeners.delete(miniAppName);
+  clearMiniAppListeners(instanceId: string) {
+    this.listeners.delete(instanceId);
   }
 }
 
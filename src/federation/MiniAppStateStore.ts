@@ -0,0 +1,108 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Mini App State Store
+ * Keeps the state a Mini App hands over with `saveState`, in memory and in AsyncStorage,
+ * so it can `restoreState` after being evicted from the keep-alive pool or after the
+ * host process was killed. State is kept per Mini App instance and account.
+ */
+
+const STORAGE_PREFIX = '@super_app_mini_app_state';
+
+// Length of the JSON snapshot, larger ones are dropped:
+// Mini Apps should keep drafts and positions, not data
+export const MAX_MINI_APP_STATE_LENGTH = 256 * 1024;
+
+const getAccountPrefix = (accountId?: string): string =>
+  `${STORAGE_PREFIX}:${accountId ?? 'shared'}:`;
+
+const getKey = (instanceId: string, accountId?: string): string =>
+  `${getAccountPrefix(accountId)}${instanceId}`;
+
+export class MiniAppStateStore {
+  private states: Map<string, unknown> = new Map();
+
+  /**
+   * Load the saved state of a Mini App into memory, call before it mounts
+   */
+  async load(instanceId: string, accountId?: string): Promise<void> {
+    const key = getKey(instanceId, accountId);
+    if (this.states.has(key)) return;
+
+    try {
+      const stored = await AsyncStorage.getItem(key);
+      if (stored) {
+        this.states.set(key, JSON.parse(stored));
+      }
+    } catch (error) {
+      console.error(`[MiniAppState] Failed to load state of ${instanceId}:`, error);
+    }
+  }
+
+  /**
+   * Get the state saved by the Mini App, undefined if there is none
+   */
+  get<T = unknown>(instanceId: string, accountId?: string): T | undefined {
+    return this.states.get(getKey(instanceId, accountId)) as T | undefined;
+  }
+
+  /**
+   * Keep state for the next mount, available straight away and persisted in the background
+   */
+  save(instanceId: string, accountId: string | undefined, state: unknown): void {
+    const key = getKey(instanceId, accountId);
+
+    let serialized: string;
+    try {
+      serialized = JSON.stringify(state);
+    } catch (error) {
+      console.error(`[MiniAppState] ${instanceId} state is not serializable:`, error);
+      return;
+    }
+
+    if (serialized === undefined) {
+      this.remove(instanceId, accountId);
+      return;
+    }
+
+    if (serialized.length > MAX_MINI_APP_STATE_LENGTH) {
+      console.warn(
+        `[MiniAppState] ${instanceId} state exceeds ${MAX_MINI_APP_STATE_LENGTH} characters, not saved`
+      );
+      return;
+    }
+
+    this.states.set(key, state);
+    AsyncStorage.setItem(key, serialized).catch(error => {
+      console.error(`[MiniAppState] Failed to save state of ${instanceId}:`, error);
+    });
+  }
+
+  /**
+   * Forget the saved state of a Mini App
+   */
+  remove(instanceId: string, accountId?: string): void {
+    const key = getKey(instanceId, accountId);
+    this.states.delete(key);
+    AsyncStorage.removeItem(key).catch(error => {
+      console.error(`[MiniAppState] Failed to remove state of ${instanceId}:`, error);
+    });
+  }
+
+  /**
+   * Forget the state saved for one account, or for everyone without an account id
+   */
+  async clear(accountId?: string): Promise<void> {
+    const prefix = accountId ? getAccountPrefix(accountId) : `${STORAGE_PREFIX}:`;
+
+    Array.from(this.states.keys())
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => this.states.delete(key));
+
+    const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(prefix));
+    await AsyncStorage.multiRemove(keys);
+    console.log(`[MiniAppState] ✓ Cleared ${keys.length} saved states`);
+  }
+}
+
+export const miniAppStateStore = new MiniAppStateStore();
@@ -0,0 +1,83 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Mini App Version Store
+ * Persists the last known good version of each Mini App and versions that failed to load,
+ * so a bad deploy can be rolled back instantly on the device
+ */
+
+const STORAGE_KEY = '@super_app_mini_app_versions';
+
+interface StoredVersions {
+  lastKnownGood: Record<string, string>;
+  badVersions: Record<string, string>;
+}
+
+export class MiniAppVersionStore {
+  private versions: StoredVersions = { lastKnownGood: {}, badVersions: {} };
+  private hydrated = false;
+
+  /**
+   * Load persisted versions (once per process)
+   */
+  async hydrate(): Promise<void> {
+    if (this.hydrated) return;
+
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.versions = { ...this.versions, ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.error('[MiniAppVersions] Failed to load versions:', error);
+    } finally {
+      this.hydrated = true;
+    }
+  }
+
+  /**
+   * Get the last version of a Mini App that mounted successfully
+   */
+  getLastKnownGood(appName: string): string | null {
+    return this.versions.lastKnownGood[appName] ?? null;
+  }
+
+  /**
+   * Check if a version of a Mini App was rolled back
+   */
+  isBadVersion(appName: string, version: string): boolean {
+    return this.versions.badVersions[appName] === version;
+  }
+
+  /**
+   * Record a version that ran without errors
+   * A version that was rolled back is never promoted again
+   */
+  async recordLastKnownGood(appName: string, version: string): Promise<void> {
+    if (this.versions.lastKnownGood[appName] === version) return;
+    if (this.isBadVersion(appName, version)) return;
+
+    this.versions.lastKnownGood[appName] = version;
+    console.log(`[MiniAppVersions] ${appName}@${version} recorded as last known good`);
+    await this.persist();
+  }
+
+  /**
+   * Mark a version as bad so the last known good version is served instead
+   */
+  async markBad(appName: string, version: string): Promise<void> {
+    this.versions.badVersions[appName] = version;
+    console.warn(`[MiniAppVersions] ${appName}@${version} marked as bad`);
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.versions));
+    } catch (error) {
+      console.error('[MiniAppVersions] Failed to save versions:', error);
+    }
+  }
+}
+
+export const miniAppVersionStore = new MiniAppVersionStore();
@@ -1,22 +1,92 @@
 import React, { Suspense, ComponentType } from 'react';
-import { View, Text, ActivityIndicator, StyleSheet } from 'react-native';
+import { View, Text, ActivityIndicator, StyleSheet, TouchableOpacity } from 'react-native';
 import {  ScriptManager } from '@callstack/repack/client';
-import type { MiniAppProps } from '../host-sdk';
+import { NavigationContext } from '@react-navigation/native';
+import { createScopedSdk } from '../host-sdk';
+import type {
+  EmbeddedMiniAppProps,
+  MiniAppLifecycleCallbacks,
+  MiniAppLifecycleEvent,
+  MiniAppProps,
+} from '../host-sdk';
+import {
+  categorizeMiniAppError,
+  createMiniAppError,
+  getMiniAppErrorMessage,
+  isMiniAppError,
+  isRetryableMiniAppError,
+  isUntrustedBundleError,
+  MiniAppErrorCode,
+} from './errors';
+import { getLoadPolicy, getMiniAppVersion, getRemotes } from './remotes.config';
+import { assertSharedDependencies } from './sharedDependencies';
+import { miniAppVersionStore } from './MiniAppVersionStore';
+import { bundleCache } from './BundleCache';
+import { miniAppLifecycleManager } from './MiniAppLifecycleManager';
+import { miniAppStateStore } from './MiniAppStateStore';
+import { useAuth } from '../auth/AuthContext';
+import type { UserInfo } from '../auth/AuthContext';
 
-interface RemoteLoaderProps {
+// How long a Mini App must run without errors before its version counts as good
+const LAST_KNOWN_GOOD_DELAY_MS = 10 * 1000;
+
+const LIFECYCLE_CALLBACKS: Record<
+  keyof MiniAppLifecycleCallbacks,
+  MiniAppLifecycleEvent
+> = {
+  onMount: 'mount',
+  onUnmount: 'unmount',
+  onFocus: 'focus',
+  onBlur: 'blur',
+  onBackground: 'background',
+  onForeground: 'foreground',
+  onMemoryWarning: 'memoryWarning',
+  onBeforeExit: 'beforeExit',
+};
+
+// Roles Mini Apps know about, anything else is treated as a regular user
+const MINI_APP_ROLES = ['admin', 'user', 'guest'] as const;
+type MiniAppRole = (typeof MINI_APP_ROLES)[number];
+
+/**
+ * The signed in user as Mini Apps see it
+ */
+export const toMiniAppUserInfo = (userInfo: UserInfo | null): MiniAppProps['userInfo'] => {
+  const role = MINI_APP_ROLES.includes(userInfo?.role as MiniAppRole)
+    ? (userInfo?.role as MiniAppRole)
+    : userInfo
+      ? 'user'
+      : 'guest';
+  return {
+    id: userInfo?.uid || '',
+    name: userInfo?.displayName || '',
+    role,
+    permissions: userInfo?.permissions || [],
+    emailVerified: !!userInfo?.emailVerified,
+  };
+};
+
+interface RemoteLoaderProps extends MiniAppLifecycleCallbacks {
   appName: string;
   moduleName?: string;
+  /** Lifecycle events and saved state are kept per instance, defaults to the app name */
+  instanceId?: string;
   userToken: string;
-  userInfo: { 
-    id: string; 
-    name: string;
-    role: 'admin' | 'user' | 'guest';
-    permissions: string[];
-  };
+  userInfo: MiniAppProps['userInfo'];
   theme: 'light' | 'dark';
   language: 'vi' | 'en';
+  /** Signed in account, Mini App storage is kept separately per account */
+  accountId?: string;
 }
 
+/**
+ * The Mini App instance a component is rendered in, so embedded ones know their parent
+ */
+const MiniAppInstanceContext = React.createContext<Omit<
+  RemoteLoaderProps,
+  keyof MiniAppLifecycleCallbacks | 'moduleName'
+> | null>(null);
+
 /**
  * RemoteLoader Component
  * Dynamically loads and renders Mini Apps via Module Federation
@@ -24,29 +94,260 @@ interface RemoteLoaderProps {
 export const RemoteLoader: React.FC<RemoteLoaderProps> = ({
   appName,
   moduleName = './App',
+  instanceId = appName,
   userToken,
   userInfo,
   theme,
   language,
+  accountId,
+  ...lifecycleCallbacks
 }) => {
+  // One sandboxed SDK instance per Mini App instance and account
+  const sdk = React.useMemo(
+    () =>
+      createScopedSdk(appName, {
+        getCapabilities: () => getRemotes()[appName]?.capabilities ?? [],
+        storageQuotaBytes: getRemotes()[appName]?.storageQuotaBytes,
+        accountId,
+        instanceId,
+        EmbeddedMiniApp: MiniAppWidget,
+      }),
+    [appName, accountId, instanceId]
+  );
+
+  // Saved state is kept per instance and account
+  const stateCallbacks = React.useMemo(
+    () => ({
+      saveState: (state: unknown) => miniAppStateStore.save(instanceId, accountId, state),
+      restoreState: <T,>() => miniAppStateStore.get<T>(instanceId, accountId),
+    }),
+    [instanceId, accountId]
+  );
+
+  const instance = React.useMemo(
+    () => ({ appName, instanceId, userToken, userInfo, theme, language, accountId }),
+    [appName, instanceId, userToken, userInfo, theme, language, accountId]
+  );
+
   const miniAppProps: MiniAppProps = {
     userToken,
     userInfo,
     theme,
     language,
+    sdk,
+    ...stateCallbacks,
+    ...lifecycleCallbacks,
   };
 
+  // Bumped on retry or after a rollback to remount and load again
+  const [loadKey, setLoadKey] = React.useState(0);
+
+  const handleRetry = React.useCallback(() => {
+    setLoadKey(key => key + 1);
+  }, []);
+
+  const handleFailure = React.useCallback(async (error: Error) => {
+    // A different version will not fix a connectivity problem
+    if (isRetryableMiniAppError(categorizeMiniAppError(error, appName))) {
+      return false;
+    }
+
+    const rolledBack = await rollbackMiniApp(appName);
+    if (rolledBack) {
+      handleRetry();
+    }
+    return rolledBack;
+  }, [appName, handleRetry]);
+
+  return (
+    <MiniAppInstanceContext.Provider value={instance}>
+      <ErrorBoundary
+        key={loadKey}
+        appName={appName}
+        onError={handleFailure}
+        onRetry={handleRetry}
+      >
+        <RemoteComponent
+          appName={appName}
+          moduleName={moduleName}
+          instanceId={instanceId}
+          accountId={accountId}
+          props={miniAppProps}
+          onLoadError={handleFailure}
+          onRetry={handleRetry}
+        />
+      </ErrorBoundary>
+    </MiniAppInstanceContext.Provider>
+  );
+};
+
+/**
+ * Mini App Widget
+ * Renders a Mini App module inside a host screen, or inside another Mini App through
+ * `sdk.embed.MiniApp`. Each one is its own instance: focus follows the parent Mini App,
+ * or the host screen when there is none.
+ */
+export const MiniAppWidget: React.FC<EmbeddedMiniAppProps> = ({
+  appName,
+  moduleName = './App',
+  instanceKey,
+  style,
+  ...lifecycleCallbacks
+}) => {
+  const parent = React.useContext(MiniAppInstanceContext);
+  const screenNavigation = React.useContext(NavigationContext);
+  const { userToken, userInfo } = useAuth();
+  const hostUserInfo = React.useMemo(() => toMiniAppUserInfo(userInfo), [userInfo]);
+
+  // Without a key, instances of the same module in one parent would share an id
+  const generatedKey = React.useId();
+  const parentId = parent?.instanceId;
+  const instanceId = `${parentId ?? 'host'}/${appName}:${moduleName}#${
+    instanceKey ?? generatedKey
+  }`;
+
+  React.useEffect(() => {
+    const unregister = miniAppLifecycleManager.registerEmbeddedInstance(
+      instanceId,
+      appName,
+      parentId
+    );
+
+    let unsubscribers: (() => void)[] = [];
+    let isFocused = false;
+    if (parentId) {
+      // Later focus changes of the parent reach this instance through the manager
+      isFocused = miniAppLifecycleManager.isFocused(parentId);
+    } else if (screenNavigation) {
+      isFocused = screenNavigation.isFocused();
+      unsubscribers = [
+        screenNavigation.addListener('focus', () =>
+          miniAppLifecycleManager.onMiniAppFocus(instanceId)
+        ),
+        screenNavigation.addListener('blur', () =>
+          miniAppLifecycleManager.onMiniAppBlur(instanceId)
+        ),
+      ];
+    }
+    if (isFocused) {
+      miniAppLifecycleManager.onMiniAppFocus(instanceId);
+    }
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      if (miniAppLifecycleManager.isFocused(instanceId)) {
+        miniAppLifecycleManager.onMiniAppBlur(instanceId);
+      }
+      unregister();
+    };
+  }, [instanceId, appName, parentId, screenNavigation]);
+
   return (
-    <ErrorBoundary appName={appName}>
-      <RemoteComponent
+    <View style={style}>
+      <RemoteLoader
         appName={appName}
         moduleName={moduleName}
-        props={miniAppProps}
+        instanceId={instanceId}
+        userToken={parent ? parent.userToken : userToken || ''}
+        userInfo={parent ? parent.userInfo : hostUserInfo}
+        theme={parent ? parent.theme : 'light'}
+        language={parent ? parent.language : 'vi'}
+        accountId={parent ? parent.accountId : userInfo?.uid}
+        {...lifecycleCallbacks}
       />
-    </ErrorBoundary>
+    </View>
   );
 };
 
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Load a remote module, retrying network failures with exponential backoff
+ */
+const loadRemoteModule = async (
+  appName: string,
+  moduleName: string,
+  isCancelled: () => boolean
+): Promise<ComponentType<MiniAppProps> | null> => {
+  const { retries, backoffMs } = getLoadPolicy(appName);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      // Use ScriptManager to load the container script first
+      await ScriptManager.shared.loadScript(appName);
+      break;
+    } catch (err) {
+      const error = categorizeMiniAppError(err, appName);
+      if (!isRetryableMiniAppError(error) || attempt >= retries || isCancelled()) {
+        throw error;
+      }
+
+      const delay = backoffMs * 2 ** attempt;
+      console.warn(
+        `[RemoteLoader] Retrying ${appName} in ${delay}ms (${attempt + 1}/${retries})`
+      );
+      await sleep(delay);
+    }
+  }
+
+  if (isCancelled()) return null;
+
+  // After script is loaded, the container is available globally
+  // Check standard MF global scope
+  // @ts-ignore
+  const container = global[appName] || window[appName];
+
+  if (!container) {
+    throw createMiniAppError(
+      MiniAppErrorCode.CONTAINER_NOT_FOUND,
+      appName,
+      `Container ${appName} not found in global scope`
+    );
+  }
+
+  // Negotiate shared dependencies, then initialize sharing scope
+  // @ts-ignore
+  const shareScope = __webpack_share_scopes__.default;
+  assertSharedDependencies(appName, shareScope);
+  await container.init(shareScope);
+
+  // Load the module
+  const factory = await container.get(moduleName);
+  const module = factory();
+
+  if (!module.default) {
+    throw createMiniAppError(
+      MiniAppErrorCode.MISSING_DEFAULT_EXPORT,
+      appName,
+      `Module ${appName} has no default export`
+    );
+  }
+
+  return module.default;
+};
+
+/**
+ * Roll a failing Mini App back to its last known good version
+ * Returns false when there is nothing to roll back to
+ */
+const rollbackMiniApp = async (appName: string): Promise<boolean> => {
+  // Dev servers always serve the working copy
+  if (__DEV__) return false;
+
+  const version = getMiniAppVersion(appName);
+  const lastKnownGood = miniAppVersionStore.getLastKnownGood(appName);
+
+  if (!lastKnownGood || lastKnownGood === version) {
+    return false;
+  }
+
+  console.warn(
+    `[RemoteLoader] Rolling back ${appName} from ${version} to ${lastKnownGood}`
+  );
+  await miniAppVersionStore.markBad(appName, version);
+  return true;
+};
+
 /**
  * Remote Component Loader
  * Uses Federated component from Re.Pack to load remote modules
@@ -54,8 +355,12 @@ export const RemoteLoader: React.FC<RemoteLoaderProps> = ({
 const RemoteComponent: React.FC<{
   appName: string;
   moduleName: string;
+  instanceId: string;
+  accountId?: string;
   props: MiniAppProps;
-}> = ({ appName, moduleName, props }) => {
+  onLoadError: (error: Error) => Promise<boolean>;
+  onRetry: () => void;
+}> = ({ appName, moduleName, instanceId, accountId, props, onLoadError, onRetry }) => {
   const [Component, setComponent] = React.useState<ComponentType<MiniAppProps> | null>(null);
   const [error, setError] = React.useState<Error | null>(null);
 
@@ -63,54 +368,73 @@ const RemoteComponent: React.FC<{
     let mounted = true;
     console.log(`[RemoteLoader] Requesting ${appName}/${moduleName}`);
 
-    // Use ScriptManager to load the container script first
-    ScriptManager.shared.loadScript(appName)
-      .then(async () => {
+    // Saved state is read before mounting so `restoreState` can answer synchronously
+    Promise.all([
+      loadRemoteModule(appName, moduleName, () => !mounted),
+      miniAppStateStore.load(instanceId, accountId),
+    ])
+      .then(([module]) => {
+        if (!mounted || !module) return;
+        console.log(`[RemoteLoader] Module ${appName} loaded successfully`);
+        setComponent(() => module);
+      })
+      .catch(async (err) => {
         if (!mounted) return;
-        
-        // After script is loaded, the container is available globally
-        // Check standard MF global scope
-        // @ts-ignore
-        const container = global[appName] || window[appName];
-        
-        if (!container) {
-          throw new Error(`Container ${appName} not found in global scope`);
-        }
+        const loadError = categorizeMiniAppError(err, appName);
+        console.error(`[RemoteLoader] Error loading ${appName} [${loadError.code}]:`, err);
 
-        // Initialize sharing scope
-        // @ts-ignore
-        await container.init(__webpack_share_scopes__.default);
-        
-        // Load the module
-        const factory = await container.get(moduleName);
-        const module = factory();
-        
-        if (module.default) {
-          console.log(`[RemoteLoader] Module ${appName} loaded successfully`);
-          setComponent(() => module.default);
-        } else {
-          throw new Error(`Module ${appName} has no default export`);
-        }
-      })
-      .catch((err) => {
-        if (mounted) {
-          console.error(`[RemoteLoader] Error loading ${appName}:`, err);
-          setError(err);
+        const rolledBack = await onLoadError(loadError);
+        if (mounted && !rolledBack) {
+          setError(loadError);
         }
       });
 
     return () => {
       mounted = false;
     };
-  }, [appName, moduleName]);
+  }, [appName, moduleName, instanceId, accountId, onLoadError]);
 
-  if (error) {
-    return (
-      <View style={{ padding: 20, alignItems: 'center' }}>
-        <Text style={{ color: 'red' }}>Failed to load {appName}</Text>
-        <Text style={{ color: '#666', fontSize: 12 }}>{error.message}</Text>
-      </View>
+  // Record the version once the Mini App has run for a while without throwing,
+  // a crash right after mounting must still be able to roll back
+  React.useEffect(() => {
+    if (!Component) return;
+
+    bundleCache.touch(appName);
+    const timer = setTimeout(() => {
+      miniAppVersionStore.recordLastKnownGood(appName, getMiniAppVersion(appName));
+    }, LAST_KNOWN_GOOD_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [Component, appName]);
+
+  // Latest props for the lifecycle listeners below
+  const propsRef = React.useRef(props);
+  propsRef.current = props;
+
+  // Deliver lifecycle events to the props callbacks while the Mini App is rendered,
+  // subscribed here so they see its mount and unmount
+  React.useEffect(() => {
+    if (!Component) return;
+
+    const unsubscribers = (
+      Object.keys(LIFECYCLE_CALLBACKS) as (keyof MiniAppLifecycleCallbacks)[]
+    ).map(callback =>
+      miniAppLifecycleManager.addEventListener(
+        instanceId,
+        LIFECYCLE_CALLBACKS[callback],
+        () => propsRef.current[callback]?.()
+      )
     );
+    miniAppLifecycleManager.onMiniAppMount(instanceId);
+
+    return () => {
+      miniAppLifecycleManager.onMiniAppUnmount(instanceId);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [Component, instanceId]);
+
+  if (error) {
+    return <MiniAppErrorView appName={appName} error={error} onRetry={onRetry} />;
   }
 
   if (!Component) {
@@ -129,6 +453,44 @@ const RemoteComponent: React.FC<{
   );
 };
 
+/**
+ * Mini App Error View
+ * Shared by the inline loader and the Error Boundary.
+ * Untrusted bundles get a distinct state without a retry action.
+ */
+const MiniAppErrorView: React.FC<{
+  appName: string;
+  error: Error;
+  onRetry: () => void;
+}> = ({ appName, error, onRetry }) => {
+  if (isUntrustedBundleError(error)) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.errorTitle}>🛡️ Untrusted Bundle</Text>
+        <Text style={styles.errorText}>{appName}</Text>
+        <Text style={styles.errorDetail}>{getMiniAppErrorMessage(error)}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.errorTitle}>⚠️ Failed to Load Mini App</Text>
+      <Text style={styles.errorText}>{appName}</Text>
+      <Text style={styles.errorDetail}>{getMiniAppErrorMessage(error)}</Text>
+      {isMiniAppError(error) &&
+        error.details?.map(detail => (
+          <Text key={detail} style={styles.errorList}>
+            {detail}
+          </Text>
+        ))}
+      <TouchableOpacity style={styles.retryButton} onPress={onRetry}>
+        <Text style={styles.retryText}>Retry</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
 /**
  * Loading Fallback
  */
@@ -142,11 +504,18 @@ const LoadingFallback: React.FC<{ appName: string }> = ({ appName }) => (
 /**
  * Error Boundary for Mini Apps
  */
+interface ErrorBoundaryProps {
+  children: React.ReactNode;
+  appName: string;
+  onError?: (error: Error) => Promise<boolean>;
+  onRetry: () => void;
+}
+
 class ErrorBoundary extends React.Component<
-  { children: React.ReactNode; appName: string },
+  ErrorBoundaryProps,
   { hasError: boolean; error?: Error }
 > {
-  constructor(props: { children: React.ReactNode; appName: string }) {
+  constructor(props: ErrorBoundaryProps) {
     super(props);
     this.state = { hasError: false };
   }
@@ -157,18 +526,17 @@ class ErrorBoundary extends React.Component<
 
   componentDidCatch(error: Error, errorInfo: React.ErrorInfo) {
     console.error(`[ErrorBoundary] Error in ${this.props.appName}:`, error, errorInfo);
+    this.props.onError?.(categorizeMiniAppError(error, this.props.appName));
   }
 
   render() {
     if (this.state.hasError) {
       return (
-        <View style={styles.container}>
-          <Text style={styles.errorTitle}>⚠️ Failed to Load Mini App</Text>
-          <Text style={styles.errorText}>{this.props.appName}</Text>
-          <Text style={styles.errorDetail}>
-            {this.state.error?.message || 'Unknown error'}
-          </Text>
-        </View>
+        <MiniAppErrorView
+          appName={this.props.appName}
+          error={categorizeMiniAppError(this.state.error, this.props.appName)}
+          onRetry={this.props.onRetry}
+        />
       );
     }
 
@@ -205,4 +573,22 @@ const styles = StyleSheet.create({
     color: '#999',
     textAlign: 'center',
   },
+  errorList: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 6,
+    fontFamily: 'Courier',
+  },
+  retryButton: {
+    marginTop: 20,
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  retryText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
 });
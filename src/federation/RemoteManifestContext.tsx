@@ -0,0 +1,59 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { getRemotes } from './remotes.config';
+import type { RemotesConfig } from './remotes.config';
+import { remoteManifestService } from './RemoteManifestService';
+
+/**
+ * Remote Manifest Context
+ * Exposes the Mini Apps currently published in the signed manifest
+ */
+
+interface RemoteManifestContextType {
+  remotes: RemotesConfig;
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+const RemoteManifestContext = createContext<RemoteManifestContextType | undefined>(undefined);
+
+export const RemoteManifestProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [remotes, setRemotes] = useState<RemotesConfig>(getRemotes());
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Load manifest on mount
+  useEffect(() => {
+    remoteManifestService
+      .fetchRemotes()
+      .then(setRemotes)
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const refresh = async () => {
+    setIsLoading(true);
+    try {
+      setRemotes(await remoteManifestService.refresh());
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <RemoteManifestContext.Provider
+      value={{
+        remotes,
+        isLoading,
+        refresh,
+      }}
+    >
+      {children}
+    </RemoteManifestContext.Provider>
+  );
+};
+
+export const useRemoteManifest = () => {
+  const context = useContext(RemoteManifestContext);
+  if (context === undefined) {
+    throw new Error('useRemoteManifest must be used within a RemoteManifestProvider');
+  }
+  return context;
+};
@@ -0,0 +1,260 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import nacl from 'tweetnacl';
+import { decodeBase64, decodeUTF8 } from 'tweetnacl-util';
+import { isTrustedSigningKey, REMOTES, setActiveRemotes } from './remotes.config';
+import type { MiniAppCapability } from '../host-sdk/types';
+import type {
+  RemoteConfig,
+  RemoteDisplay,
+  RemoteIntegrity,
+  RemoteLoadPolicy,
+  RemotesConfig,
+} from './remotes.config';
+
+/**
+ * Remote Manifest Service
+ * Fetches the signed Mini App manifest with fallback to the static REMOTES map
+ */
+
+const STORAGE_KEY = '@super_app_remote_manifest';
+const CACHE_DURATION_MS = 15 * 60 * 1000; // 15 minutes
+const MANIFEST_SCHEMA_VERSION = 1;
+
+// Ed25519 public key (base64) the manifest is signed with in CI, injected at build time
+const MANIFEST_PUBLIC_KEY = process.env.MANIFEST_PUBLIC_KEY ?? '';
+
+const SEMVER_PATTERN = /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/;
+
+export interface MiniAppManifestEntry {
+  version: string;
+  pinnedVersion?: string;
+  /** Container URL, may contain `{version}` */
+  bundleUrl: string;
+  devUrl?: string;
+  chunks?: string[];
+  integrity: RemoteIntegrity;
+  loadPolicy?: Partial<RemoteLoadPolicy>;
+  shared?: Record<string, string>;
+  capabilities?: MiniAppCapability[];
+  storageQuotaBytes?: number;
+  keepAliveMemoryBytes?: number;
+  requiredPermissions?: string[];
+  requiredRole?: 'admin' | 'user' | 'guest';
+  requiresVerifiedEmail?: boolean;
+  featureFlag?: string;
+  display?: RemoteDisplay;
+}
+
+export interface RemoteManifest {
+  schemaVersion: number;
+  generatedAt: string;
+  miniApps: Record<string, MiniAppManifestEntry>;
+}
+
+/**
+ * Manifest as served by the CDN: the raw JSON payload plus its detached signature
+ */
+interface SignedManifest {
+  payload: string;
+  signature: string;
+}
+
+interface StoredManifest extends SignedManifest {
+  timestamp: number;
+}
+
+export class RemoteManifestService {
+  private manifestEndpoint: string;
+  private cachedRemotes: RemotesConfig | null = null;
+  private lastFetchTime: number = 0;
+
+  constructor(manifestEndpoint: string = 'https://cdn.superapp.com/mini-apps/manifest.json') {
+    this.manifestEndpoint = manifestEndpoint;
+  }
+
+  /**
+   * Load remotes from the manifest and make them the active configuration
+   */
+  async fetchRemotes(): Promise<RemotesConfig> {
+    const now = Date.now();
+    if (this.cachedRemotes && (now - this.lastFetchTime) < CACHE_DURATION_MS) {
+      console.log('[RemoteManifest] Using cached manifest');
+      return this.cachedRemotes;
+    }
+
+    let stored: StoredManifest | null = null;
+
+    try {
+      // Try to load from AsyncStorage
+      const raw = await AsyncStorage.getItem(STORAGE_KEY);
+      if (raw) {
+        stored = JSON.parse(raw);
+        if (stored && (now - stored.timestamp) < CACHE_DURATION_MS) {
+          try {
+            const remotes = this.verify(stored);
+            console.log('[RemoteManifest] Using stored manifest');
+            return this.activate(remotes, stored.timestamp);
+          } catch (error) {
+            console.error('[RemoteManifest] Stored manifest is invalid:', error);
+            stored = null;
+          }
+        }
+      }
+
+      // Fetch from remote
+      console.log('[RemoteManifest] Fetching manifest...');
+      const response = await fetch(this.manifestEndpoint, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const signed: SignedManifest = await response.json();
+      const remotes = this.verify(signed);
+
+      // Store the signed payload so it is re-verified on every load
+      await AsyncStorage.setItem(
+        STORAGE_KEY,
+        JSON.stringify({ ...signed, timestamp: now })
+      );
+
+      console.log('[RemoteManifest] Fetched and cached manifest');
+      return this.activate(remotes, now);
+    } catch (error) {
+      console.error('[RemoteManifest] Error fetching manifest:', error);
+    }
+
+    // Stale but verified manifest beats the baked-in config
+    if (stored) {
+      try {
+        console.log('[RemoteManifest] Falling back to stale stored manifest');
+        return this.activate(this.verify(stored), stored.timestamp);
+      } catch (error) {
+        console.error('[RemoteManifest] Stored manifest is invalid:', error);
+      }
+    }
+
+    console.log('[RemoteManifest] Falling back to static remotes');
+    setActiveRemotes(REMOTES);
+    return REMOTES;
+  }
+
+  /**
+   * Clear cached manifest
+   */
+  async clearCache(): Promise<void> {
+    this.cachedRemotes = null;
+    this.lastFetchTime = 0;
+    setActiveRemotes(REMOTES);
+    await AsyncStorage.removeItem(STORAGE_KEY);
+    console.log('[RemoteManifest] Cache cleared');
+  }
+
+  /**
+   * Manually refresh manifest
+   */
+  async refresh(): Promise<RemotesConfig> {
+    this.cachedRemotes = null;
+    this.lastFetchTime = 0;
+    await AsyncStorage.removeItem(STORAGE_KEY);
+    return this.fetchRemotes();
+  }
+
+  private activate(remotes: RemotesConfig, fetchedAt: number): RemotesConfig {
+    this.cachedRemotes = remotes;
+    this.lastFetchTime = fetchedAt;
+    setActiveRemotes(remotes);
+    return remotes;
+  }
+
+  /**
+   * Verify the manifest signature and convert it to a remotes map
+   */
+  private verify(signed: SignedManifest): RemotesConfig {
+    if (!signed?.payload || !signed?.signature) {
+      throw new Error('Manifest is not signed');
+    }
+
+    if (!MANIFEST_PUBLIC_KEY) {
+      throw new Error('MANIFEST_PUBLIC_KEY was not set for this build');
+    }
+
+    const isValid = nacl.sign.detached.verify(
+      decodeUTF8(signed.payload),
+      decodeBase64(signed.signature),
+      decodeBase64(MANIFEST_PUBLIC_KEY)
+    );
+
+    if (!isValid) {
+      throw new Error('Manifest signature verification failed');
+    }
+
+    const manifest: RemoteManifest = JSON.parse(signed.payload);
+    if (manifest.schemaVersion !== MANIFEST_SCHEMA_VERSION) {
+      throw new Error(`Unsupported manifest schema ${manifest.schemaVersion}`);
+    }
+
+    const remotes: RemotesConfig = {};
+    Object.entries(manifest.miniApps ?? {}).forEach(([appName, entry]) => {
+      const config = toRemoteConfig(appName, entry);
+      if (config) {
+        remotes[appName] = config;
+      }
+    });
+
+    return remotes;
+  }
+}
+
+/**
+ * Convert a manifest entry to a remote config, skipping entries that cannot be trusted
+ */
+const toRemoteConfig = (
+  appName: string,
+  entry: MiniAppManifestEntry
+): RemoteConfig | null => {
+  if (
+    !entry.bundleUrl ||
+    !SEMVER_PATTERN.test(entry.version) ||
+    (entry.pinnedVersion && !SEMVER_PATTERN.test(entry.pinnedVersion))
+  ) {
+    console.warn(`[RemoteManifest] Skipping ${appName}: invalid bundle URL or version`);
+    return null;
+  }
+
+  if (!entry.integrity?.publicKey) {
+    console.warn(`[RemoteManifest] Skipping ${appName}: not signed`);
+    return null;
+  }
+
+  if (!isTrustedSigningKey(entry.integrity.publicKey)) {
+    console.warn(`[RemoteManifest] Skipping ${appName}: signed with a key this build does not trust`);
+    return null;
+  }
+
+  return {
+    dev: entry.devUrl ?? REMOTES[appName]?.dev ?? entry.bundleUrl,
+    prod: entry.bundleUrl,
+    version: entry.version,
+    pinnedVersion: entry.pinnedVersion,
+    chunks: entry.chunks,
+    integrity: entry.integrity,
+    loadPolicy: entry.loadPolicy,
+    shared: entry.shared,
+    capabilities: entry.capabilities,
+    storageQuotaBytes: entry.storageQuotaBytes,
+    keepAliveMemoryBytes: entry.keepAliveMemoryBytes,
+    requiredPermissions: entry.requiredPermissions,
+    requiredRole: entry.requiredRole,
+    requiresVerifiedEmail: entry.requiresVerifiedEmail,
+    featureFlag: entry.featureFlag,
+    display: entry.display,
+  };
+};
+
+export const remoteManifestService = new RemoteManifestService();
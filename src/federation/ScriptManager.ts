@@ -1,6 +1,15 @@
 import { Platform } from "react-native";
 import { ScriptManager } from "@callstack/repack/client";
-import { getMiniAppUrl, REMOTES } from "./remotes.config";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  getLoadPolicy,
+  getMiniAppUrl,
+  getRemotes,
+  isTrustedSigningKey,
+} from "./remotes.config";
+import { remoteManifestService } from "./RemoteManifestService";
+import { miniAppVersionStore } from "./MiniAppVersionStore";
+import { createMiniAppError, MiniAppErrorCode } from "./errors";
 
 /**
  * Script Manager for Dynamic Module Federation
@@ -9,21 +18,84 @@ import { getMiniAppUrl, REMOTES } from "./remotes.config";
 
 const isDev = __DEV__;
 
+// Prefix of the native Re.Pack error message when code-signing verification fails (iOS and Android)
+const SIGNATURE_FAILURE_PREFIX = "The bundle verification failed";
+
+/**
+ * Resolve the Mini App a script belongs to (container itself or one of its chunks)
+ */
+const getOwningMiniApp = (scriptId: string, caller?: string): string | null => {
+  const remotes = getRemotes();
+  if (!caller && remotes[scriptId]) return scriptId;
+  if (caller && remotes[caller]) return caller;
+  return null;
+};
+
+/**
+ * Get signature verification mode for a Mini App script
+ * Fails closed when the remote has no public key configured
+ */
+const getSignatureMode = (
+  appName: string,
+  scriptId: string
+): "strict" | "lax" => {
+  // Local dev servers serve unsigned bundles, only verify when a signature is present.
+  // Dev builds may run without the signing key injected
+  if (isDev) return "lax";
+
+  const { integrity } = getRemotes()[appName];
+
+  if (!integrity?.publicKey) {
+    throw createMiniAppError(
+      MiniAppErrorCode.UNTRUSTED_BUNDLE,
+      appName,
+      `Mini App "${appName}" has no public key configured`,
+      { scriptId }
+    );
+  }
+
+  // Native verification uses the app-wide key, any other one can never verify
+  if (!isTrustedSigningKey(integrity.publicKey)) {
+    throw createMiniAppError(
+      MiniAppErrorCode.UNTRUSTED_BUNDLE,
+      appName,
+      `Mini App "${appName}" is signed with a key this build does not trust`,
+      { scriptId }
+    );
+  }
+
+  return "strict";
+};
+
+// Persist the script cache index so downloaded bundles are reused across launches and offline
+ScriptManager.shared.setStorage(AsyncStorage);
+
 // Initialize the script manager with a resolver
 ScriptManager.shared.addResolver(async (scriptId, caller) => {
+  // Make sure the manifest and rollback state are loaded, e.g. when opening a Mini App from a deep link
+  if (!caller) {
+    await Promise.all([
+      remoteManifestService.fetchRemotes(),
+      miniAppVersionStore.hydrate(),
+    ]);
+  }
+
+  const remotes = getRemotes();
+
   // Case 1: Resolve main container
-  if (!caller && REMOTES[scriptId]) {
+  if (!caller && remotes[scriptId]) {
     try {
       const url = getMiniAppUrl(scriptId, isDev);
 
       return {
         url,
         cache: !isDev,
+        timeout: getLoadPolicy(scriptId).timeoutMs,
         query: {
           platform: Platform.OS,
           ...(isDev && { t: Date.now().toString() }),
         },
-        verifyScriptSignature: "off",
+        verifyScriptSignature: getSignatureMode(scriptId, scriptId),
       };
     } catch (error) {
       console.error(`[ScriptManager] Failed to resolve ${scriptId}:`, error);
@@ -32,7 +104,7 @@ ScriptManager.shared.addResolver(async (scriptId, caller) => {
   }
 
   // Case 2: Resolve chunks from a remote container
-  if (caller && REMOTES[caller]) {
+  if (caller && remotes[caller]) {
     try {
       const baseUrl = getMiniAppUrl(caller, isDev);
       // Construct chunk URL relative to container URL
@@ -41,11 +113,12 @@ ScriptManager.shared.addResolver(async (scriptId, caller) => {
       return {
         url: chunkUrl,
         cache: !isDev,
+        timeout: getLoadPolicy(caller).timeoutMs,
         query: {
           platform: Platform.OS,
           ...(isDev && { t: Date.now().toString() }),
         },
-        verifyScriptSignature: "off",
+        verifyScriptSignature: getSignatureMode(caller, scriptId),
       };
     } catch (error) {
       console.error(
@@ -59,6 +132,22 @@ ScriptManager.shared.addResolver(async (scriptId, caller) => {
   return undefined;
 });
 
+// Surface native code-signing failures as untrusted bundle errors
+ScriptManager.shared.hooks.errorLoad(({ options, error }) => {
+  const appName = getOwningMiniApp(options.scriptId, options.caller);
+
+  if (appName && error?.message?.startsWith(SIGNATURE_FAILURE_PREFIX)) {
+    throw createMiniAppError(
+      MiniAppErrorCode.UNTRUSTED_BUNDLE,
+      appName,
+      error.message,
+      { scriptId: options.scriptId, cause: error }
+    );
+  }
+
+  return false;
+});
+
 // Event listeners for script loading not supported in this version of Re.Pack ScriptManager types
 // ScriptManager.shared.on('resolving', ...);
 
@@ -0,0 +1,121 @@
+/**
+ * Mini App Error Types
+ *
+ * Error codes and types for loading remote Mini Apps
+ */
+
+export enum MiniAppErrorCode {
+  // Loading errors
+  NETWORK_ERROR = 'NETWORK_ERROR',
+  CONTAINER_NOT_FOUND = 'CONTAINER_NOT_FOUND',
+  MISSING_DEFAULT_EXPORT = 'MISSING_DEFAULT_EXPORT',
+  SHARED_DEPENDENCY_MISMATCH = 'SHARED_DEPENDENCY_MISMATCH',
+
+  // Runtime errors
+  RUNTIME_CRASH = 'RUNTIME_CRASH',
+
+  // Integrity errors
+  UNTRUSTED_BUNDLE = 'UNTRUSTED_BUNDLE',
+}
+
+// Native Re.Pack error codes for failed downloads (Android, iOS)
+const NETWORK_FAILURE_CODES = ['NetworkFailure', 'RequestFailure', 'ScriptDownloadFailure'];
+
+export interface MiniAppError extends Error {
+  code: MiniAppErrorCode;
+  appName: string;
+  scriptId?: string;
+  details?: string[];
+  cause?: any;
+}
+
+/**
+ * Create typed Mini App error
+ */
+export function createMiniAppError(
+  code: MiniAppErrorCode,
+  appName: string,
+  message: string,
+  options: { scriptId?: string; details?: string[]; cause?: any } = {}
+): MiniAppError {
+  const error = new Error(message) as MiniAppError;
+  error.code = code;
+  error.appName = appName;
+  error.scriptId = options.scriptId;
+  error.details = options.details;
+  error.cause = options.cause;
+  return error;
+}
+
+/**
+ * Check if error is a Mini App error
+ */
+export function isMiniAppError(error: any): error is MiniAppError {
+  return (
+    !!error &&
+    typeof error.appName === 'string' &&
+    Object.values(MiniAppErrorCode).includes(error.code)
+  );
+}
+
+/**
+ * Categorize any error raised while loading or running a Mini App
+ */
+export function categorizeMiniAppError(
+  error: any,
+  appName: string,
+  fallbackCode: MiniAppErrorCode = MiniAppErrorCode.RUNTIME_CRASH
+): MiniAppError {
+  if (isMiniAppError(error)) {
+    return error;
+  }
+
+  const isNetworkFailure =
+    NETWORK_FAILURE_CODES.includes(error?.code) ||
+    (error instanceof TypeError && /network request failed/i.test(error.message));
+
+  return createMiniAppError(
+    isNetworkFailure ? MiniAppErrorCode.NETWORK_ERROR : fallbackCode,
+    appName,
+    error?.message || 'Unknown error',
+    { cause: error }
+  );
+}
+
+/**
+ * Check if loading may succeed when attempted again
+ */
+export function isRetryableMiniAppError(error: any): boolean {
+  return isMiniAppError(error) && error.code === MiniAppErrorCode.NETWORK_ERROR;
+}
+
+/**
+ * Get user-friendly error message
+ */
+export function getMiniAppErrorMessage(error: any): string {
+  if (isMiniAppError(error)) {
+    switch (error.code) {
+      case MiniAppErrorCode.NETWORK_ERROR:
+        return 'Network connection error. Please check your internet.';
+      case MiniAppErrorCode.CONTAINER_NOT_FOUND:
+        return 'This Mini App is not available right now.';
+      case MiniAppErrorCode.MISSING_DEFAULT_EXPORT:
+        return 'This Mini App is misconfigured.';
+      case MiniAppErrorCode.SHARED_DEPENDENCY_MISMATCH:
+        return 'This Mini App needs a different version of the app. Please update.';
+      case MiniAppErrorCode.RUNTIME_CRASH:
+        return 'Something went wrong in this Mini App.';
+      case MiniAppErrorCode.UNTRUSTED_BUNDLE:
+        return 'This Mini App could not be verified and was blocked for your safety.';
+    }
+  }
+
+  return error?.message || 'An unexpected error occurred';
+}
+
+/**
+ * Check if a bundle was rejected by integrity verification
+ */
+export function isUntrustedBundleError(error: any): boolean {
+  return isMiniAppError(error) && error.code === MiniAppErrorCode.UNTRUSTED_BUNDLE;
+}
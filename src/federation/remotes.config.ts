@@ -1,45 +1,198 @@
+import { miniAppVersionStore } from "./MiniAppVersionStore";
+import type { MiniAppCapability } from "../host-sdk/types";
+
 /**
  * Remote Mini App Configuration
- * Maps Mini App names to their CDN endpoints for dev and production
+ * Maps Mini App names to their CDN endpoints for dev and production.
+ * The static REMOTES map is the offline fallback for the signed remote manifest.
+ */
+
+/**
+ * Integrity requirements for a remote's bundles.
+ * Every remote is signed, so the native loader verifies it and keeps it in its cache for offline use.
+ */
+export interface RemoteIntegrity {
+  /**
+   * Public key the remote's container and chunks are signed with (Re.Pack CodeSigningPlugin).
+   * Verified natively in strict mode against `RepackPublicKey`, which is filled from the same
+   * MINI_APP_SIGNING_PUBLIC_KEY as `MINI_APP_SIGNING_KEY`. Signing uses that one app-wide key,
+   * remotes declaring any other key are rejected.
+   */
+  publicKey: string;
+}
+
+/**
+ * Home screen presentation for Mini Apps that ship via the manifest only
+ */
+export interface RemoteDisplay {
+  name: string;
+  description?: string;
+  icon?: string;
+  color?: string;
+}
+
+/**
+ * How a remote is loaded over the network
  */
+export interface RemoteLoadPolicy {
+  /** Timeout for a single download in milliseconds */
+  timeoutMs: number;
+  /** Additional attempts after a network failure */
+  retries: number;
+  /** Delay before the first retry, doubled on every following attempt */
+  backoffMs: number;
+}
+
+export const DEFAULT_LOAD_POLICY: RemoteLoadPolicy = {
+  timeoutMs: 15000,
+  retries: 3,
+  backoffMs: 1000,
+};
 
 export interface RemoteConfig {
+  /** Dev server container URL, `{version}` is replaced as in `prod` */
   dev: string;
+  /** Production container URL, `{version}` is replaced by the resolved version */
   prod: string;
+  /** Latest published version */
+  version?: string;
+  /** Version to serve instead of `version`, e.g. to hold back a rollout */
+  pinnedVersion?: string;
+  /** Chunk ids to download alongside the container when prefetching */
+  chunks?: string[];
+  integrity: RemoteIntegrity;
+  loadPolicy?: Partial<RemoteLoadPolicy>;
+  /** Shared dependency ranges the remote was built against, checked before `container.init` */
+  shared?: Record<string, string>;
+  /** Host SDK capabilities the remote may use, everything else is rejected */
+  capabilities?: MiniAppCapability[];
+  /** Size limit of the remote's `native.storage` namespace */
+  storageQuotaBytes?: number;
+  /** Estimated memory of an instance kept mounted by the keep-alive pool */
+  keepAliveMemoryBytes?: number;
   requiredPermissions?: string[];
   requiredRole?: "admin" | "user" | "guest";
+  /** Only users who confirmed their email address may open the remote */
+  requiresVerifiedEmail?: boolean;
   featureFlag?: string;
+  display?: RemoteDisplay;
 }
 
 export interface RemotesConfig {
   [key: string]: RemoteConfig;
 }
 
+/**
+ * Public key Mini App bundles are signed with in CI, base64 (DER) without the PEM header.
+ * Injected at build time from MINI_APP_SIGNING_PUBLIC_KEY, which also fills `RepackPublicKey`
+ * for native verification. Production builds fail without it.
+ */
+export const MINI_APP_SIGNING_KEY = process.env.MINI_APP_SIGNING_PUBLIC_KEY ?? "";
+
+const normalizePublicKey = (key: string): string =>
+  key.replace(/-----(BEGIN|END) PUBLIC KEY-----/g, "").replace(/\s/g, "");
+
+/**
+ * Whether a remote's `integrity.publicKey` is the key this build verifies bundles with
+ * Native verification only knows one app-wide key, bundles signed with any other never verify
+ */
+export const isTrustedSigningKey = (publicKey: string): boolean =>
+  !!MINI_APP_SIGNING_KEY &&
+  normalizePublicKey(publicKey) === normalizePublicKey(MINI_APP_SIGNING_KEY);
+
+/**
+ * Shared dependency ranges of the Mini Apps built alongside this Host
+ */
+const HOST_BUILD_SHARED = {
+  react: "^19.1.0",
+  "react-native": "~0.81.5",
+  "@react-navigation/native": "^7.1.26",
+  "@react-navigation/native-stack": "^7.9.0",
+};
+
 export const REMOTES: RemotesConfig = {
   ChatApp: {
     dev: "http://localhost:8082/chatApp.container.bundle",
-    prod: "https://your-cdn.com/ChatApp/ios/chatApp.container.bundle",
+    prod: "https://your-cdn.com/ChatApp/{version}/ios/chatApp.container.bundle",
+    version: "1.0.0",
+    integrity: { publicKey: MINI_APP_SIGNING_KEY },
+    // Chat is the largest bundle
+    loadPolicy: { timeoutMs: 30000 },
+    shared: HOST_BUILD_SHARED,
+    capabilities: ["camera", "storage", "api:chat"],
     requiredPermissions: ["chat"],
     featureFlag: "CHAT_APP",
   },
   miniAppA: {
     dev: "http://localhost:9001/miniAppA.container.bundle",
-    prod: "https://cdn.superapp.com/mini-apps/app-a/latest/miniAppA.container.bundle",
+    prod: "https://cdn.superapp.com/mini-apps/app-a/{version}/miniAppA.container.bundle",
+    version: "1.0.0",
+    integrity: { publicKey: MINI_APP_SIGNING_KEY },
+    shared: HOST_BUILD_SHARED,
+    capabilities: ["storage"],
     requiredPermissions: ["miniapp.access.basic"],
     featureFlag: "MINI_APP_A",
   },
   miniAppB: {
     dev: "http://localhost:9002/miniAppB.container.bundle",
-    prod: "https://cdn.superapp.com/mini-apps/app-b/latest/miniAppB.container.bundle",
+    prod: "https://cdn.superapp.com/mini-apps/app-b/{version}/miniAppB.container.bundle",
+    version: "1.0.0",
+    integrity: { publicKey: MINI_APP_SIGNING_KEY },
+    shared: HOST_BUILD_SHARED,
+    capabilities: ["storage"],
     requiredPermissions: ["miniapp.access.basic"],
     featureFlag: "MINI_APP_B",
   },
 };
 
+// Remotes currently in effect - replaced once a verified manifest is loaded
+let activeRemotes: RemotesConfig = REMOTES;
+
+/**
+ * Get the remotes currently in effect (manifest or static fallback)
+ */
+export const getRemotes = (): RemotesConfig => activeRemotes;
+
+/**
+ * Replace the remotes in effect
+ */
+export const setActiveRemotes = (remotes: RemotesConfig) => {
+  activeRemotes = remotes;
+};
+
+/**
+ * Get the version of a Mini App to load
+ * A pinned version wins over the latest one, a rolled back version resolves to the last known good
+ */
+export const getMiniAppVersion = (appName: string): string => {
+  const config = activeRemotes[appName];
+  if (!config) {
+    throw new Error(`Mini App "${appName}" not found in remotes configuration`);
+  }
+
+  const target = config.pinnedVersion ?? config.version ?? "latest";
+  const lastKnownGood = miniAppVersionStore.getLastKnownGood(appName);
+
+  if (lastKnownGood && miniAppVersionStore.isBadVersion(appName, target)) {
+    return lastKnownGood;
+  }
+  return target;
+};
+
 export const getMiniAppUrl = (appName: string, isDev: boolean): string => {
-  const config = REMOTES[appName];
+  const config = activeRemotes[appName];
   if (!config) {
     throw new Error(`Mini App "${appName}" not found in remotes configuration`);
   }
-  return isDev ? config.dev : config.prod;
+  // Manifest entries without a devUrl fall back to the bundle URL, which may be versioned too
+  const url = isDev ? config.dev : config.prod;
+  return url.replace("{version}", getMiniAppVersion(appName));
 };
+
+/**
+ * Get load policy of a Mini App, merged with defaults
+ */
+export const getLoadPolicy = (appName: string): RemoteLoadPolicy => ({
+  ...DEFAULT_LOAD_POLICY,
+  ...activeRemotes[appName]?.loadPolicy,
+});
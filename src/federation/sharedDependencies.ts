@@ -0,0 +1,113 @@
+import { createMiniAppError, MiniAppErrorCode } from './errors';
+import { getRemotes } from './remotes.config';
+
+/**
+ * Shared Dependency Negotiation
+ * Compares the shared dependency ranges a remote was built against with the
+ * versions the Host provides in its share scope, before the container is initialized.
+ *
+ * A different major (or minor for 0.x packages) is refused - singletons such as
+ * react and react-native cannot be loaded twice. An older Host version within the
+ * same major is only logged.
+ */
+
+export interface SharedDependencyMismatch {
+  name: string;
+  required: string;
+  provided: string | null;
+  severity: 'error' | 'warning';
+}
+
+/**
+ * Webpack share scope: package name -> provided version -> module factory
+ */
+type ShareScope = Record<string, Record<string, unknown>>;
+
+type Version = [number, number, number];
+
+/**
+ * Parse the lowest version matched by a range such as `^19.1.0`, `~0.81.0` or `>=7`
+ */
+const parseVersion = (value: string): Version | null => {
+  const match = value.trim().match(/(\d+)(?:\.(\d+))?(?:\.(\d+))?/);
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)];
+};
+
+const compareVersions = (a: Version, b: Version): number =>
+  a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+
+/**
+ * Check if two versions are API compatible under semver (0.x minors are breaking)
+ */
+const isSameMajor = (a: Version, b: Version): boolean =>
+  a[0] === b[0] && (a[0] !== 0 || a[1] === b[1]);
+
+/**
+ * Compare declared ranges against the Host share scope
+ */
+export function checkSharedDependencies(
+  required: Record<string, string>,
+  shareScope: ShareScope
+): SharedDependencyMismatch[] {
+  const mismatches: SharedDependencyMismatch[] = [];
+
+  Object.entries(required).forEach(([name, range]) => {
+    const provided = Object.keys(shareScope?.[name] ?? {})[0] ?? null;
+    if (!provided) {
+      // Remote falls back to its own copy
+      mismatches.push({ name, required: range, provided: null, severity: 'warning' });
+      return;
+    }
+
+    const requiredVersion = parseVersion(range);
+    const providedVersion = parseVersion(provided);
+    if (range === '*' || !requiredVersion || !providedVersion) {
+      return;
+    }
+
+    if (!isSameMajor(requiredVersion, providedVersion)) {
+      mismatches.push({ name, required: range, provided, severity: 'error' });
+    } else if (compareVersions(providedVersion, requiredVersion) < 0) {
+      mismatches.push({ name, required: range, provided, severity: 'warning' });
+    }
+  });
+
+  return mismatches;
+}
+
+/**
+ * Describe a mismatch for logs and the error screen
+ */
+export const formatMismatch = ({ name, required, provided }: SharedDependencyMismatch): string =>
+  `${name}: requires ${required}, host provides ${provided ?? 'none'}`;
+
+/**
+ * Refuse to initialize a remote built against incompatible shared dependencies
+ */
+export function assertSharedDependencies(appName: string, shareScope: ShareScope): void {
+  const required = getRemotes()[appName]?.shared;
+  if (!required) {
+    console.warn(`[SharedDeps] ${appName} declares no shared dependency ranges, skipping check`);
+    return;
+  }
+
+  const mismatches = checkSharedDependencies(required, shareScope);
+  mismatches
+    .filter(mismatch => mismatch.severity === 'warning')
+    .forEach(mismatch => console.warn(`[SharedDeps] ${appName} - ${formatMismatch(mismatch)}`));
+
+  const incompatible = mismatches.filter(mismatch => mismatch.severity === 'error');
+  if (incompatible.length) {
+    const details = incompatible.map(formatMismatch);
+    console.error(`[SharedDeps] ${appName} is incompatible:\n  ${details.join('\n  ')}`);
+    throw createMiniAppError(
+      MiniAppErrorCode.SHARED_DEPENDENCY_MISMATCH,
+      appName,
+      `Incompatible shared dependencies: ${details.join('; ')}`,
+      { details }
+    );
+  }
+
+  console.log(`[SharedDeps] ✓ ${appName} shared dependencies compatible`);
+}
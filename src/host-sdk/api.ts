@@ -1,149 +1,368 @@
-import type { ApiResponse } from "./types";
+import { DEFAULT_API_BASE_URL } from "../region/regionConfig";
+import type {
+  ApiHelpers,
+  ApiRequest,
+  ApiResponse,
+  HttpMethod,
+  RequestInterceptor,
+  RequestOptions,
+  ResponseInterceptor,
+} from "./types";
 
 /**
  * API Utilities for Mini Apps
  * Provides authenticated HTTP client with interceptors
  */
 
-class ApiClient {
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Returns a new access token, or null when the session cannot be refreshed
+ */
+export type TokenRefreshHandler = () => Promise<string | null>;
+
+/**
+ * Called when the backend reports the session was revoked, e.g. from another device
+ */
+export type SessionRevokedHandler = () => Promise<void>;
+
+// Error code of 401 responses for a session that was signed out remotely
+const SESSION_REVOKED_CODE = "SESSION_REVOKED";
+
+export class ApiClient implements ApiHelpers {
   private baseURL: string;
   private token: string;
+  private parent: ApiClient | null;
+  private requestInterceptors: RequestInterceptor[] = [];
+  private responseInterceptors: ResponseInterceptor[] = [];
+  private refreshHandler: TokenRefreshHandler | null = null;
+  // In-flight refresh shared by every request that hits a 401 meanwhile
+  private refreshing: Promise<string | null> | null = null;
+  private sessionRevokedHandler: SessionRevokedHandler | null = null;
+  // Revocation being handled, so concurrent 401s end the session only once
+  private revoking: Promise<void> | null = null;
 
   constructor(
-    baseURL: string = "https://super-app-case.web.app/api",
-    token: string = ""
+    baseURL: string = DEFAULT_API_BASE_URL,
+    token: string = "",
+    parent: ApiClient | null = null
   ) {
     this.baseURL = baseURL;
     this.token = token;
+    this.parent = parent;
   }
 
   setToken(token: string) {
-    this.token = token;
+    this.root().token = token;
   }
 
-  private getHeaders(): HeadersInit {
-    return {
-      "Content-Type": "application/json",
-      ...(this.token && { Authorization: `Bearer ${this.token}` }),
-    };
+  /**
+   * Point every client at another backend, e.g. after the tenant or region changed
+   */
+  setBaseURL(baseURL: string) {
+    this.root().baseURL = baseURL;
   }
 
-  async get<T = any>(endpoint: string): Promise<ApiResponse<T>> {
-    try {
-      const response = await fetch(`${this.baseURL}${endpoint}`, {
-        method: "GET",
-        headers: this.getHeaders(),
-      });
+  getBaseURL(): string {
+    return this.root().baseURL;
+  }
 
-      const data = await response.json();
+  getToken(): string {
+    return this.root().token;
+  }
 
-      if (!response.ok) {
-        return {
-          success: false,
-          error: data.message || "Request failed",
-        };
-      }
+  /**
+   * Register how to obtain a new token after a 401
+   */
+  setRefreshHandler(handler: TokenRefreshHandler | null) {
+    this.root().refreshHandler = handler;
+  }
 
-      return {
-        success: true,
-        data,
-      };
-    } catch (error) {
-      console.error("[API] GET Error:", error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-      };
+  /**
+   * Register how to end the session once the backend revoked it
+   */
+  setSessionRevokedHandler(handler: SessionRevokedHandler | null) {
+    this.root().sessionRevokedHandler = handler;
+  }
+
+  /**
+   * Refresh the token, joining a refresh that is already running
+   * Requests made meanwhile wait and go out with the new token
+   */
+  refreshToken(): Promise<string | null> {
+    const root = this.root();
+    if (!root.refreshHandler) return Promise.resolve(null);
+
+    if (!root.refreshing) {
+      root.refreshing = root.refreshHandler()
+        .then((token) => {
+          if (token) root.token = token;
+          return token;
+        })
+        .catch((error) => {
+          console.error("[API] Token refresh failed:", error);
+          return null;
+        })
+        .finally(() => {
+          root.refreshing = null;
+        });
     }
+
+    return root.refreshing;
   }
 
-  async post<T = any>(endpoint: string, body: any): Promise<ApiResponse<T>> {
-    try {
-      const response = await fetch(`${this.baseURL}${endpoint}`, {
-        method: "POST",
-        headers: this.getHeaders(),
-        body: JSON.stringify(body),
-      });
+  /**
+   * Create a child client that runs this client's interceptors around its own,
+   * so callers can add interceptors without affecting other users of this client
+   */
+  extend(): ApiClient {
+    return new ApiClient(this.baseURL, "", this);
+  }
 
-      const data = await response.json();
+  useRequestInterceptor = (interceptor: RequestInterceptor) => {
+    this.requestInterceptors.push(interceptor);
+    return () => {
+      this.requestInterceptors = this.requestInterceptors.filter(
+        (item) => item !== interceptor
+      );
+    };
+  };
 
-      if (!response.ok) {
-        return {
-          success: false,
-          error: data.message || "Request failed",
-        };
-      }
+  useResponseInterceptor = (interceptor: ResponseInterceptor) => {
+    this.responseInterceptors.push(interceptor);
+    return () => {
+      this.responseInterceptors = this.responseInterceptors.filter(
+        (item) => item !== interceptor
+      );
+    };
+  };
 
-      return {
-        success: true,
-        data,
-      };
-    } catch (error) {
-      console.error("[API] POST Error:", error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-      };
+  /**
+   * Core request pipeline: request interceptors -> fetch -> response interceptors.
+   * Network and HTTP failures resolve to `success: false`, errors thrown by interceptors reject.
+   */
+  request = async <T = any>(
+    method: HttpMethod,
+    endpoint: string,
+    { body, ...options }: RequestOptions & { body?: any } = {}
+  ): Promise<ApiResponse<T>> => {
+    // Queue behind a running refresh so the request goes out with the new token
+    await this.root().refreshing;
+
+    let request: ApiRequest = {
+      ...options,
+      method,
+      endpoint,
+      body,
+      headers: { ...this.getHeaders(), ...options.headers },
+    };
+
+    for (const interceptor of this.getRequestInterceptors()) {
+      request = await interceptor(request);
     }
-  }
 
-  async put<T = any>(endpoint: string, body: any): Promise<ApiResponse<T>> {
-    try {
-      const response = await fetch(`${this.baseURL}${endpoint}`, {
-        method: "PUT",
-        headers: this.getHeaders(),
-        body: JSON.stringify(body),
-      });
+    let response: ApiResponse = await this.send(request);
 
-      const data = await response.json();
+    if (response.status === 401 && request.headers.Authorization) {
+      response =
+        response.errorCode === SESSION_REVOKED_CODE
+          ? await this.handleSessionRevoked(response)
+          : await this.retryWithFreshToken(request, response);
+    }
 
-      if (!response.ok) {
-        return {
-          success: false,
-          error: data.message || "Request failed",
-        };
-      }
+    for (const interceptor of this.getResponseInterceptors()) {
+      response = await interceptor(response, request);
+    }
 
-      return {
-        success: true,
-        data,
-      };
-    } catch (error) {
-      console.error("[API] PUT Error:", error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-      };
+    return response;
+  };
+
+  get = <T = any>(endpoint: string, options?: RequestOptions) =>
+    this.request<T>("GET", endpoint, options);
+
+  post = <T = any>(endpoint: string, body: any, options?: RequestOptions) =>
+    this.request<T>("POST", endpoint, { ...options, body });
+
+  put = <T = any>(endpoint: string, body: any, options?: RequestOptions) =>
+    this.request<T>("PUT", endpoint, { ...options, body });
+
+  delete = <T = any>(endpoint: string, options?: RequestOptions) =>
+    this.request<T>("DELETE", endpoint, options);
+
+  /**
+   * Refresh the token once and replay the request, keeping the 401 if refresh fails
+   */
+  private async retryWithFreshToken(
+    request: ApiRequest,
+    unauthorized: ApiResponse
+  ): Promise<ApiResponse> {
+    const root = this.root();
+    const sentToken = request.headers.Authorization.replace(/^Bearer /, "");
+
+    // Another request already refreshed while this one was in flight
+    let token: string | null = root.token !== sentToken ? root.token : null;
+
+    if (!token) {
+      console.log("[API] 401 received, refreshing token...");
+      token = await this.refreshToken();
+      if (!token) return unauthorized;
+    }
+
+    return this.send({
+      ...request,
+      headers: { ...request.headers, Authorization: `Bearer ${token}` },
+    });
+  }
+
+  /**
+   * A revoked session cannot be refreshed, end it and keep the 401
+   */
+  private async handleSessionRevoked(
+    unauthorized: ApiResponse
+  ): Promise<ApiResponse> {
+    const root = this.root();
+    if (!root.sessionRevokedHandler) return unauthorized;
+
+    if (!root.revoking) {
+      console.log("[API] Session revoked by the server");
+      root.revoking = root.sessionRevokedHandler()
+        .catch((error) => {
+          console.error("[API] Ending revoked session failed:", error);
+        })
+        .finally(() => {
+          root.revoking = null;
+        });
     }
+
+    await root.revoking;
+    return unauthorized;
+  }
+
+  private root(): ApiClient {
+    return this.parent ? this.parent.root() : this;
   }
 
-  async delete<T = any>(endpoint: string): Promise<ApiResponse<T>> {
+  private getHeaders(): Record<string, string> {
+    const { token } = this.root();
+    return {
+      "Content-Type": "application/json",
+      ...(token && { Authorization: `Bearer ${token}` }),
+    };
+  }
+
+  // Parent interceptors wrap the child's: they see the request first and the response last
+  private getRequestInterceptors(): RequestInterceptor[] {
+    return [
+      ...(this.parent?.getRequestInterceptors() ?? []),
+      ...this.requestInterceptors,
+    ];
+  }
+
+  private getResponseInterceptors(): ResponseInterceptor[] {
+    return [
+      ...this.responseInterceptors,
+      ...(this.parent?.getResponseInterceptors() ?? []),
+    ];
+  }
+
+  private buildUrl({ endpoint, query }: ApiRequest): string {
+    const url = `${this.root().baseURL}${endpoint}`;
+    const params = Object.entries(query ?? {})
+      .filter(([, value]) => value !== undefined)
+      .map(
+        ([key, value]) =>
+          `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`
+      )
+      .join("&");
+
+    if (!params) return url;
+    return `${url}${url.includes("?") ? "&" : "?"}${params}`;
+  }
+
+  private async send(request: ApiRequest): Promise<ApiResponse> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (request.signal?.aborted) abort();
+    request.signal?.addEventListener("abort", abort);
+
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, request.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
     try {
-      const response = await fetch(`${this.baseURL}${endpoint}`, {
-        method: "DELETE",
-        headers: this.getHeaders(),
+      const isJsonBody =
+        request.body !== undefined &&
+        request.headers["Content-Type"] === "application/json";
+
+      const response = await fetch(this.buildUrl(request), {
+        method: request.method,
+        headers: request.headers,
+        body: isJsonBody ? JSON.stringify(request.body) : request.body,
+        signal: controller.signal,
       });
 
-      const data = await response.json();
+      const data = await this.parseBody(response);
 
       if (!response.ok) {
+        const retryAfter = Number(response.headers.get("retry-after"));
         return {
           success: false,
-          error: data.message || "Request failed",
+          status: response.status,
+          error:
+            data?.message ||
+            data?.error?.message ||
+            (typeof data?.error === "string" && data.error) ||
+            "Request failed",
+          errorCode: data?.code ?? data?.error?.code,
+          retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined,
         };
       }
 
       return {
         success: true,
+        status: response.status,
         data,
       };
     } catch (error) {
-      console.error("[API] DELETE Error:", error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-      };
+      if (timedOut) {
+        return this.toFailure(request, new Error("Request timed out"));
+      }
+      if (controller.signal.aborted) {
+        return this.toFailure(request, new Error("Request aborted"));
+      }
+      return this.toFailure(request, error);
+    } finally {
+      clearTimeout(timeout);
+      request.signal?.removeEventListener("abort", abort);
+    }
+  }
+
+  /**
+   * Parse JSON bodies, return text for everything else
+   */
+  private async parseBody(response: Response): Promise<any> {
+    const text = await response.text();
+    if (!text) return undefined;
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType.includes("json")) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
     }
+    return text;
+  }
+
+  private toFailure(request: ApiRequest, error: unknown): ApiResponse {
+    console.error(`[API] ${request.method} Error:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
   }
 }
 
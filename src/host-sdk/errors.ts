@@ -0,0 +1,47 @@
+/**
+ * Host SDK Error Types
+ *
+ * Error codes and types for calls Mini Apps make into the Host SDK
+ */
+
+import type { MiniAppCapability } from './types';
+
+export enum HostSdkErrorCode {
+  CAPABILITY_NOT_DECLARED = 'CAPABILITY_NOT_DECLARED',
+  STORAGE_QUOTA_EXCEEDED = 'STORAGE_QUOTA_EXCEEDED',
+  PERMISSION_DENIED = 'PERMISSION_DENIED',
+  INVALID_ENDPOINT = 'INVALID_ENDPOINT',
+}
+
+export interface HostSdkError extends Error {
+  code: HostSdkErrorCode;
+  appName: string;
+  capability: MiniAppCapability;
+}
+
+/**
+ * Create typed Host SDK error
+ */
+export function createHostSdkError(
+  code: HostSdkErrorCode,
+  appName: string,
+  capability: MiniAppCapability,
+  message: string
+): HostSdkError {
+  const error = new Error(message) as HostSdkError;
+  error.code = code;
+  error.appName = appName;
+  error.capability = capability;
+  return error;
+}
+
+/**
+ * Check if error is a Host SDK error
+ */
+export function isHostSdkError(error: any): error is HostSdkError {
+  return (
+    !!error &&
+    typeof error.appName === 'string' &&
+    Object.values(HostSdkErrorCode).includes(error.code)
+  );
+}
@@ -7,3 +7,10 @@ export * from './types';
 export { api } from './api';
 export { native } from './native';
 export { navigation, setNavigationRef } from './navigation';
+export { createScopedSdk } from './scoped';
+export {
+  clearAllMiniAppStorage,
+  clearAccountMiniAppStorage,
+  DEFAULT_STORAGE_QUOTA_BYTES,
+} from './storage';
+export * from './errors';
@@ -1,4 +1,6 @@
-import { Alert, Platform } from 'react-native';
+import { Alert, PermissionsAndroid, Platform } from 'react-native';
+import type { Permission } from 'react-native';
+import { createNamespacedStorage } from './storage';
 import type { NativeCapabilities } from './types';
 
 /**
@@ -6,6 +8,12 @@ import type { NativeCapabilities } from './types';
  * Provides access to native capabilities without direct native module access
  */
 
+// Host permission names to Android runtime permissions
+const ANDROID_PERMISSIONS: Record<string, Permission> = {
+  camera: PermissionsAndroid.PERMISSIONS.CAMERA,
+  location: PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION,
+};
+
 export const native: NativeCapabilities = {
   camera: {
     takePicture: async () => {
@@ -33,32 +41,32 @@ export const native: NativeCapabilities = {
     },
   },
 
-  storage: {
-    getItem: async (key: string) => {
-      // Mock implementation - replace with AsyncStorage or MMKV
-      console.log(`[Native] getItem: ${key}`);
-      return null;
-    },
-    setItem: async (key: string, value: string) => {
-      // Mock implementation - replace with AsyncStorage or MMKV
-      console.log(`[Native] setItem: ${key} = ${value}`);
-    },
-    removeItem: async (key: string) => {
-      // Mock implementation - replace with AsyncStorage or MMKV
-      console.log(`[Native] removeItem: ${key}`);
-    },
-  },
+  // Host namespace - Mini Apps get their own through the scoped SDK
+  storage: createNamespacedStorage('__host__'),
 
+  // OS level permissions - Mini Apps go through the permission broker instead
   permissions: {
     request: async (permission: string) => {
-      // Mock implementation - replace with react-native-permissions
-      console.log(`[Native] request permission: ${permission}`);
-      return true;
+      const androidPermission = ANDROID_PERMISSIONS[permission];
+      if (Platform.OS !== 'android') {
+        // iOS prompts on first use of the native API
+        console.log(`[Native] request permission: ${permission}`);
+        return true;
+      }
+      if (!androidPermission) return false;
+
+      const result = await PermissionsAndroid.request(androidPermission);
+      return result === PermissionsAndroid.RESULTS.GRANTED;
     },
     check: async (permission: string) => {
-      // Mock implementation - replace with react-native-permissions
-      console.log(`[Native] check permission: ${permission}`);
-      return true;
+      const androidPermission = ANDROID_PERMISSIONS[permission];
+      if (Platform.OS !== 'android') {
+        console.log(`[Native] check permission: ${permission}`);
+        return true;
+      }
+      if (!androidPermission) return false;
+
+      return PermissionsAndroid.check(androidPermission);
     },
   },
 };
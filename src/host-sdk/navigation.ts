@@ -30,3 +30,13 @@ export const navigation: NavigationHelpers = {
     navigationRef?.navigate(screen, params);
   },
 };
+
+/**
+ * Close every open Mini App by going back to Home (host only)
+ * Used when the account that opened them is no longer signed in
+ */
+export const closeMiniApps = () => {
+  if (!navigationRef?.isReady()) return;
+  navigationRef.resetRoot({ index: 0, routes: [{ name: 'Home' }] });
+  console.log('[Navigation] Closed Mini Apps');
+};
@@ -0,0 +1,223 @@
+import React from 'react';
+import type { ComponentType } from 'react';
+import { api } from './api';
+import { native } from './native';
+import { navigation } from './navigation';
+import { createHostSdkError, HostSdkErrorCode } from './errors';
+import { createNamespacedStorage } from './storage';
+import { permissionBroker } from '../permissions/PermissionBroker';
+import { miniAppLifecycleManager } from '../federation/MiniAppLifecycleManager';
+import type {
+  ApiHelpers,
+  EmbedHelpers,
+  EmbeddedMiniAppProps,
+  HostSdk,
+  HttpMethod,
+  LifecycleHelpers,
+  MiniAppCapability,
+  NativeCapabilities,
+  NavigationHelpers,
+} from './types';
+
+/**
+ * Scoped Host SDK
+ * Wraps the shared Host SDK so a Mini App can only reach the capabilities it declares.
+ * Undeclared calls are logged and rejected with a HostSdkError.
+ */
+
+interface ScopedSdkOptions {
+  /** Read on every call so manifest updates apply without remounting */
+  getCapabilities: () => MiniAppCapability[];
+  storageQuotaBytes?: number;
+  /** Signed in account, storage is kept separately per account */
+  accountId?: string;
+  /** Lifecycle events are delivered per instance, defaults to the app name */
+  instanceId?: string;
+  /** Host component that renders an embedded Mini App */
+  EmbeddedMiniApp: ComponentType<EmbeddedMiniAppProps>;
+}
+
+// OS permissions a Mini App may ask for, by the capability that allows them
+const PERMISSION_CAPABILITIES: Record<string, MiniAppCapability> = {
+  camera: 'camera',
+  location: 'location',
+};
+
+/**
+ * Capability an API endpoint needs, `api:<first path segment>`
+ * Null for endpoints that could resolve outside that segment once `fetch` normalizes the URL:
+ * absolute URLs, `.` and `..` segments, backslashes and percent-encoded separators or dots
+ */
+export const getApiScope = (endpoint: string): MiniAppCapability | null => {
+  const path = endpoint.split(/[?#]/)[0];
+  if (/^[a-z][a-z\d+.-]*:/i.test(path) || path.startsWith('//')) return null;
+  if (/\\|%2f|%5c|%2e/i.test(path)) return null;
+
+  const segments = path.replace(/^\//, '').split('/');
+  if (!segments[0] || segments.some(segment => segment === '.' || segment === '..')) {
+    return null;
+  }
+  return `api:${segments[0]}`;
+};
+
+/**
+ * Create the SDK instance handed to a single Mini App
+ */
+export const createScopedSdk = (
+  appName: string,
+  {
+    getCapabilities,
+    storageQuotaBytes,
+    accountId,
+    instanceId = appName,
+    EmbeddedMiniApp,
+  }: ScopedSdkOptions
+): HostSdk => {
+  const assertCapability = (capability: MiniAppCapability, call: string) => {
+    if (getCapabilities().includes(capability)) return;
+
+    console.warn(`[HostSDK] ${appName} called ${call} without declaring "${capability}"`);
+    throw createHostSdkError(
+      HostSdkErrorCode.CAPABILITY_NOT_DECLARED,
+      appName,
+      capability,
+      `${appName} is not allowed to call ${call}: capability "${capability}" not declared`
+    );
+  };
+
+  // Wrap async methods so violations reject instead of throwing synchronously
+  const guard = <Args extends any[], R>(
+    capability: MiniAppCapability,
+    call: string,
+    method: (...args: Args) => Promise<R>
+  ) => async (...args: Args): Promise<R> => {
+    assertCapability(capability, call);
+    return method(...args);
+  };
+
+  // OS permission through the broker, which asks the user on the Mini App's behalf
+  const withPermission = <Args extends any[], R>(
+    capability: 'camera' | 'location',
+    call: string,
+    method: (...args: Args) => Promise<R>
+  ) => guard(capability, call, async (...args: Args) => {
+    if (!(await permissionBroker.request(appName, capability))) {
+      throw createHostSdkError(
+        HostSdkErrorCode.PERMISSION_DENIED,
+        appName,
+        capability,
+        `${appName} was not granted ${capability} permission`
+      );
+    }
+    return method(...args);
+  });
+
+  // Endpoints that could leave their scope once the URL is normalized are rejected outright
+  const assertApiScope = (method: HttpMethod, endpoint: string): MiniAppCapability => {
+    const call = `api.request(${method} ${endpoint})`;
+    const scope = getApiScope(endpoint);
+    if (!scope) {
+      console.warn(`[HostSDK] ${appName} called ${call} with an invalid endpoint`);
+      throw createHostSdkError(
+        HostSdkErrorCode.INVALID_ENDPOINT,
+        appName,
+        'api:',
+        `${appName} is not allowed to call ${call}: endpoints must be paths without ".", ".." or encoded separators`
+      );
+    }
+    assertCapability(scope, call);
+    return scope;
+  };
+
+  // Child client, so interceptors a Mini App adds only apply to its own requests
+  const client = api.extend();
+
+  const scopedApi: ApiHelpers = {
+    request: async (method, endpoint, options) => {
+      assertApiScope(method, endpoint);
+      return client.request(method, endpoint, options);
+    },
+    get: (endpoint, options) => scopedApi.request('GET', endpoint, options),
+    post: (endpoint, body, options) => scopedApi.request('POST', endpoint, { ...options, body }),
+    put: (endpoint, body, options) => scopedApi.request('PUT', endpoint, { ...options, body }),
+    delete: (endpoint, options) => scopedApi.request('DELETE', endpoint, options),
+    // Re-check the scope after the Mini App's interceptor, which may rewrite the endpoint
+    useRequestInterceptor: (interceptor) =>
+      client.useRequestInterceptor(async (request) => {
+        const next = await interceptor(request);
+        assertApiScope(next.method, next.endpoint);
+        return next;
+      }),
+    useResponseInterceptor: client.useResponseInterceptor,
+  };
+
+  const storage = createNamespacedStorage(appName, storageQuotaBytes, accountId);
+
+  const scopedNative: NativeCapabilities = {
+    camera: {
+      takePicture: withPermission('camera', 'camera.takePicture', native.camera.takePicture),
+      pickImage: withPermission('camera', 'camera.pickImage', native.camera.pickImage),
+    },
+    location: {
+      getCurrentPosition: withPermission('location', 'location.getCurrentPosition', native.location.getCurrentPosition),
+    },
+    storage: {
+      getItem: guard('storage', 'storage.getItem', storage.getItem),
+      setItem: guard('storage', 'storage.setItem', storage.setItem),
+      removeItem: guard('storage', 'storage.removeItem', storage.removeItem),
+      clear: guard('storage', 'storage.clear', storage.clear),
+      getAllKeys: guard('storage', 'storage.getAllKeys', storage.getAllKeys),
+    },
+    // Permissions without a capability of their own are never declared, so they are rejected
+    permissions: {
+      request: async (permission) => {
+        assertCapability(
+          PERMISSION_CAPABILITIES[permission] ?? (permission as MiniAppCapability),
+          `permissions.request(${permission})`
+        );
+        return permissionBroker.request(appName, permission);
+      },
+      check: async (permission) => {
+        assertCapability(
+          PERMISSION_CAPABILITIES[permission] ?? (permission as MiniAppCapability),
+          `permissions.check(${permission})`
+        );
+        return permissionBroker.check(appName, permission);
+      },
+    },
+  };
+
+  const scopedNavigation: NavigationHelpers = {
+    goBack: navigation.goBack,
+    navigateToMiniApp: (targetApp, params) => {
+      assertCapability(`navigate:${targetApp}`, `navigation.navigateToMiniApp(${targetApp})`);
+      navigation.navigateToMiniApp(targetApp, params);
+    },
+    navigateToHost: (screen, params) => {
+      assertCapability('navigation.host', `navigation.navigateToHost(${screen})`);
+      navigation.navigateToHost(screen, params);
+    },
+  };
+
+  // Lifecycle events need no capability, every Mini App instance gets its own
+  const lifecycle: LifecycleHelpers = {
+    subscribe: (event, listener) =>
+      miniAppLifecycleManager.addEventListener(instanceId, event, listener),
+  };
+
+  // Checked on render, a violation ends up in the Mini App's error boundary
+  const embed: EmbedHelpers = {
+    MiniApp: (props) => {
+      assertCapability(`embed:${props.appName}`, `embed.MiniApp(${props.appName})`);
+      return React.createElement(EmbeddedMiniApp, props);
+    },
+  };
+
+  return {
+    api: scopedApi,
+    native: scopedNative,
+    navigation: scopedNavigation,
+    lifecycle,
+    embed,
+  };
+};
@@ -0,0 +1,98 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createHostSdkError, HostSdkErrorCode } from './errors';
+import type { NativeCapabilities } from './types';
+
+/**
+ * Namespaced Storage
+ * Persistent key-value storage where every Mini App gets its own namespace,
+ * so one Mini App can never read or overwrite another's keys.
+ * Mini App namespaces are also scoped to the signed in account.
+ */
+
+const STORAGE_PREFIX = '@super_app_mini_app_storage';
+export const DEFAULT_STORAGE_QUOTA_BYTES = 1024 * 1024; // 1 MB
+
+/**
+ * UTF-8 size of a string
+ */
+const byteLength = (value: string): number =>
+  encodeURIComponent(value).replace(/%[A-F\d]{2}/g, 'x').length;
+
+const getAccountPrefix = (accountId: string): string =>
+  `${STORAGE_PREFIX}:account:${accountId}:`;
+
+/**
+ * Create storage scoped to a namespace
+ * @param quotaBytes Maximum total size of keys and values in the namespace
+ * @param accountId Keep a separate copy of the namespace per account
+ */
+export const createNamespacedStorage = (
+  namespace: string,
+  quotaBytes: number = DEFAULT_STORAGE_QUOTA_BYTES,
+  accountId?: string
+): NativeCapabilities['storage'] => {
+  const prefix = accountId
+    ? `${getAccountPrefix(accountId)}${namespace}:`
+    : `${STORAGE_PREFIX}:${namespace}:`;
+
+  const getNamespaceKeys = async (): Promise<string[]> =>
+    (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(prefix));
+
+  const getUsage = async (excludeKey: string): Promise<number> => {
+    const keys = (await getNamespaceKeys()).filter(key => key !== excludeKey);
+    const pairs = await AsyncStorage.multiGet(keys);
+    return pairs.reduce(
+      (total, [key, value]) => total + byteLength(key.slice(prefix.length)) + byteLength(value ?? ''),
+      0
+    );
+  };
+
+  return {
+    getItem: async (key: string) => AsyncStorage.getItem(prefix + key),
+
+    setItem: async (key: string, value: string) => {
+      const usage = await getUsage(prefix + key);
+      if (usage + byteLength(key) + byteLength(value) > quotaBytes) {
+        console.warn(`[Storage] ${namespace} exceeded its ${quotaBytes} byte quota`);
+        throw createHostSdkError(
+          HostSdkErrorCode.STORAGE_QUOTA_EXCEEDED,
+          namespace,
+          'storage',
+          `Storage quota of ${quotaBytes} bytes exceeded`
+        );
+      }
+      await AsyncStorage.setItem(prefix + key, value);
+    },
+
+    removeItem: async (key: string) => AsyncStorage.removeItem(prefix + key),
+
+    clear: async () => {
+      await AsyncStorage.multiRemove(await getNamespaceKeys());
+    },
+
+    getAllKeys: async () =>
+      (await getNamespaceKeys()).map(key => key.slice(prefix.length)),
+  };
+};
+
+/**
+ * Wipe the storage of every namespace, e.g. when the user signs out
+ */
+export const clearAllMiniAppStorage = async (): Promise<void> => {
+  const keys = (await AsyncStorage.getAllKeys()).filter(key =>
+    key.startsWith(`${STORAGE_PREFIX}:`)
+  );
+  await AsyncStorage.multiRemove(keys);
+  console.log(`[Storage] ✓ Cleared ${keys.length} Mini App keys`);
+};
+
+/**
+ * Wipe the Mini App storage of one account, e.g. when it signs out
+ */
+export const clearAccountMiniAppStorage = async (accountId: string): Promise<void> => {
+  const keys = (await AsyncStorage.getAllKeys()).filter(key =>
+    key.startsWith(getAccountPrefix(accountId))
+  );
+  await AsyncStorage.multiRemove(keys);
+  console.log(`[Storage] ✓ Cleared ${keys.length} Mini App keys of account`);
+};
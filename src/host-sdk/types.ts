@@ -3,21 +3,70 @@
  * Contract between Host App and Mini Apps
  */
 
-export interface MiniAppProps {
+import type { ComponentType } from "react";
+import type { StyleProp, ViewStyle } from "react-native";
+
+/**
+ * Lifecycle events the host sends a Mini App
+ */
+export type MiniAppLifecycleEvent =
+  | "mount"
+  | "unmount"
+  | "focus"
+  | "blur"
+  | "background"
+  | "foreground"
+  | "accountSwitch"
+  | "idleTimeout"
+  | "memoryWarning"
+  | "beforeExit";
+
+/**
+ * The same events as props callbacks
+ */
+export interface MiniAppLifecycleCallbacks {
+  onMount?: () => void;
+  onUnmount?: () => void;
+  onFocus?: () => void;
+  onBlur?: () => void;
+  onBackground?: () => void;
+  onForeground?: () => void;
+  onMemoryWarning?: () => void;
+  // The user is leaving the Mini App, save state now
+  onBeforeExit?: () => void;
+}
+
+export interface MiniAppProps extends MiniAppLifecycleCallbacks {
   userToken: string;
   userInfo: {
     id: string;
     name: string;
     role: "admin" | "user" | "guest";
     permissions: string[];
+    // Whether the user confirmed their email address
+    emailVerified?: boolean;
   };
   theme: "light" | "dark";
   language: "vi" | "en";
-  // Lifecycle callbacks
-  onFocus?: () => void;
-  onBlur?: () => void;
-  onBackground?: () => void;
-  onForeground?: () => void;
+  // Host SDK scoped to the capabilities the Mini App declares
+  sdk: HostSdk;
+  // Hand over state to get back after the Mini App was evicted or the host restarted,
+  // e.g. on "unmount" and "background". Must be JSON serializable
+  saveState: (state: unknown) => void;
+  // State last passed to `saveState`, undefined when there is none
+  restoreState: <T = unknown>() => T | undefined;
+}
+
+/**
+ * Props of a Mini App embedded in a host screen or in another Mini App
+ */
+export interface EmbeddedMiniAppProps extends MiniAppLifecycleCallbacks {
+  appName: string;
+  // Exposed module to render, defaults to "./App"
+  moduleName?: string;
+  // Stable id of this instance in its parent, needed for saved state to survive a remount
+  instanceKey?: string;
+  style?: StyleProp<ViewStyle>;
 }
 
 export interface ApiResponse<T = any> {
@@ -25,6 +74,55 @@ export interface ApiResponse<T = any> {
   data?: T;
   message?: string;
   error?: string;
+  // HTTP status, absent when the request never reached the server
+  status?: number;
+  // Error code sent by the backend with a failed response
+  errorCode?: string;
+  // How long the server asked to wait before retrying (Retry-After)
+  retryAfterMs?: number;
+}
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  query?: Record<string, string | number | boolean | undefined>;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+/**
+ * Request as it flows through the interceptor chain
+ */
+export interface ApiRequest extends RequestOptions {
+  method: HttpMethod;
+  endpoint: string;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+export type RequestInterceptor = (
+  request: ApiRequest
+) => ApiRequest | Promise<ApiRequest>;
+
+export type ResponseInterceptor = (
+  response: ApiResponse,
+  request: ApiRequest
+) => ApiResponse | Promise<ApiResponse>;
+
+export interface ApiHelpers {
+  request: <T = any>(
+    method: HttpMethod,
+    endpoint: string,
+    options?: RequestOptions & { body?: any }
+  ) => Promise<ApiResponse<T>>;
+  get: <T = any>(endpoint: string, options?: RequestOptions) => Promise<ApiResponse<T>>;
+  post: <T = any>(endpoint: string, body: any, options?: RequestOptions) => Promise<ApiResponse<T>>;
+  put: <T = any>(endpoint: string, body: any, options?: RequestOptions) => Promise<ApiResponse<T>>;
+  delete: <T = any>(endpoint: string, options?: RequestOptions) => Promise<ApiResponse<T>>;
+  // Interceptors return a function that removes them
+  useRequestInterceptor: (interceptor: RequestInterceptor) => () => void;
+  useResponseInterceptor: (interceptor: ResponseInterceptor) => () => void;
 }
 
 export interface NavigationHelpers {
@@ -33,6 +131,16 @@ export interface NavigationHelpers {
   navigateToHost: (screen: string, params?: any) => void;
 }
 
+export interface LifecycleHelpers {
+  // Returns a function that removes the listener
+  subscribe: (event: MiniAppLifecycleEvent, listener: () => void) => () => void;
+}
+
+export interface EmbedHelpers {
+  // Renders another Mini App inside this one, needs "embed:<appName>"
+  MiniApp: ComponentType<EmbeddedMiniAppProps>;
+}
+
 export interface NativeCapabilities {
   camera: {
     takePicture: () => Promise<string>;
@@ -45,9 +153,34 @@ export interface NativeCapabilities {
     getItem: (key: string) => Promise<string | null>;
     setItem: (key: string, value: string) => Promise<void>;
     removeItem: (key: string) => Promise<void>;
+    clear: () => Promise<void>;
+    getAllKeys: () => Promise<string[]>;
   };
   permissions: {
     request: (permission: string) => Promise<boolean>;
     check: (permission: string) => Promise<boolean>;
   };
 }
+
+/**
+ * Capabilities a Mini App declares in its manifest entry.
+ * `api:<scope>` allows API endpoints under `/<scope>`, e.g. `api:chat` -> `/chat/...`
+ * `embed:<appName>` allows rendering that Mini App inside this one, e.g. `embed:ChatApp`
+ * `navigate:<appName>` allows opening that Mini App, e.g. `navigate:ChatApp`
+ */
+export type MiniAppCapability =
+  | "camera"
+  | "location"
+  | "storage"
+  | "navigation.host"
+  | `api:${string}`
+  | `embed:${string}`
+  | `navigate:${string}`;
+
+export interface HostSdk {
+  api: ApiHelpers;
+  native: NativeCapabilities;
+  navigation: NavigationHelpers;
+  lifecycle: LifecycleHelpers;
+  embed: EmbedHelpers;
+}
@@ -13,12 +13,27 @@ import { HomeScreen } from "../screens/HomeScreen";
 import { MiniAppScreen } from "../screens/MiniAppScreen";
 import { LoginScreen } from "../screens/LoginScreen";
 import { RegisterScreen } from "../screens/RegisterScreen";
+import { PermissionSettingsScreen } from "../screens/PermissionSettingsScreen";
+import { ForgotPasswordScreen } from "../screens/ForgotPasswordScreen";
+import { ResetPasswordScreen } from "../screens/ResetPasswordScreen";
+import { VerifyEmailScreen } from "../screens/VerifyEmailScreen";
+import { SessionsScreen } from "../screens/SessionsScreen";
 import { setNavigationRef } from "../host-sdk/navigation";
+import { miniAppLifecycleManager } from "../federation/MiniAppLifecycleManager";
+import { MiniAppKeepAliveHost } from "../federation/MiniAppKeepAliveHost";
 import { useAuth } from "../auth/AuthContext";
 import { linkingConfig, deepLinkHandler } from "./deepLinking.config";
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
+/**
+ * Read a query parameter from a deep link, e.g. the token of a reset link
+ */
+const getQueryParam = (url: string, name: string): string | undefined => {
+  const match = url.match(new RegExp(`[?&]${name}=([^&#]*)`));
+  return match ? decodeURIComponent(match[1]) : undefined;
+};
+
 export const RootNavigator: React.FC = () => {
   const navigationRef = React.useRef(null);
   const { isAuthenticated, isLoading } = useAuth();
@@ -28,11 +43,15 @@ export const RootNavigator: React.FC = () => {
   const isProcessingUrl = React.useRef(false);
   const pendingUrlFromEvent = React.useRef<string | null>(null);
 
+  // The container only mounts once auth finished loading
   React.useEffect(() => {
     if (navigationRef.current) {
       setNavigationRef(navigationRef.current);
     }
-  }, []);
+  }, [isLoading]);
+
+  // Background, foreground and memory warnings reach Mini Apps through the lifecycle manager
+  React.useEffect(() => miniAppLifecycleManager.attachToAppState(), []);
 
   // Mark Home as ready when authenticated
   React.useEffect(() => {
@@ -219,6 +238,19 @@ export const RootNavigator: React.FC = () => {
         console.log("🔗 [Deep Link] Navigating to Register");
         (navigationRef.current as any).navigate("Register");
         lastProcessedUrl.current = url;
+      } else if (parsed.startsWith("verify-email")) {
+        console.log("🔗 [Deep Link] Navigating to VerifyEmail");
+        (navigationRef.current as any).navigate("VerifyEmail", {
+          token: getQueryParam(url, "token"),
+        });
+        lastProcessedUrl.current = url;
+      } else if (parsed.startsWith("reset-password")) {
+        const token = getQueryParam(url, "token");
+        if (token) {
+          console.log("🔗 [Deep Link] Navigating to ResetPassword");
+          (navigationRef.current as any).navigate("ResetPassword", { token });
+        }
+        lastProcessedUrl.current = url;
       }
     }
   };
@@ -268,6 +300,10 @@ export const RootNavigator: React.FC = () => {
           <>
             <Stack.Screen name="Login" component={LoginScreen} />
             <Stack.Screen name="Register" component={RegisterScreen} />
+            <Stack.Screen
+              name="ForgotPassword"
+              component={ForgotPasswordScreen}
+            />
           </>
         ) : (
           <>
@@ -281,9 +317,49 @@ export const RootNavigator: React.FC = () => {
                 title: "Mini App",
               }}
             />
+            <Stack.Screen
+              name="PermissionSettings"
+              component={PermissionSettingsScreen}
+              options={{
+                headerShown: true,
+                headerBackTitle: "Back",
+                title: "Mini App Permissions",
+              }}
+            />
+            <Stack.Screen
+              name="Sessions"
+              component={SessionsScreen}
+              options={{
+                headerShown: true,
+                headerBackTitle: "Back",
+                title: "Devices & Sessions",
+              }}
+            />
+            <Stack.Screen
+              name="AddAccount"
+              component={LoginScreen}
+              options={{
+                headerShown: true,
+                headerBackTitle: "Back",
+                title: "Add Account",
+              }}
+            />
+            <Stack.Screen
+              name="VerifyEmail"
+              component={VerifyEmailScreen}
+              options={{
+                headerShown: true,
+                headerBackTitle: "Back",
+                title: "Verify Email",
+              }}
+            />
           </>
         )}
+        {/* Reset links work whether or not someone is signed in */}
+        <Stack.Screen name="ResetPassword" component={ResetPasswordScreen} />
       </Stack.Navigator>
+      {/* Mini Apps live outside their screens so they can be kept alive */}
+      {isAuthenticated && <MiniAppKeepAliveHost />}
     </NavigationContainer>
   );
 };
@@ -20,6 +20,9 @@ export const linkingConfig: LinkingOptions<RootStackParamList> = {
       // Auth screens
       Login: 'login',
       Register: 'register',
+      ForgotPassword: 'forgot-password',
+      ResetPassword: 'reset-password',
+      VerifyEmail: 'verify-email',
       
       // Main app screens
       Home: 'home',
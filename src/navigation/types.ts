@@ -5,10 +5,18 @@
 export type RootStackParamList = {
   Login: undefined;
   Register: undefined;
+  ForgotPassword: undefined;
+  ResetPassword: {
+    token: string;
+  };
+  VerifyEmail: { token?: string } | undefined;
   Home: undefined;
   MiniApp: {
     appName: string;
   };
+  PermissionSettings: undefined;
+  Sessions: undefined;
+  AddAccount: undefined;
 };
 
 declare global {
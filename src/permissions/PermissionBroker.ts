@@ -0,0 +1,178 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { native } from '../host-sdk/native';
+
+/**
+ * Permission Broker
+ * Host-owned gate in front of OS permissions. Every Mini App has to be granted
+ * each OS permission by the user through the host consent sheet, and the
+ * decision is remembered per Mini App until revoked in settings.
+ */
+
+const STORAGE_KEY = '@super_app_permission_grants';
+
+/**
+ * Remembered decision: `ask` grants the current request only
+ */
+export type GrantDecision = 'allow' | 'deny' | 'ask';
+
+export interface PermissionGrant {
+  appName: string;
+  permission: string;
+  decision: GrantDecision;
+  updatedAt: number;
+}
+
+export interface ConsentRequest {
+  appName: string;
+  permission: string;
+}
+
+/**
+ * Shows the consent sheet and resolves with the user's choice
+ */
+export type ConsentPresenter = (request: ConsentRequest) => Promise<GrantDecision>;
+
+type GrantsListener = (grants: PermissionGrant[]) => void;
+
+export class PermissionBroker {
+  private grants: Record<string, Record<string, PermissionGrant>> = {};
+  private hydrated = false;
+  private presenter: ConsentPresenter | null = null;
+  private listeners = new Set<GrantsListener>();
+  // One consent sheet at a time
+  private consentQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Register the host UI that asks the user for consent
+   */
+  setConsentPresenter(presenter: ConsentPresenter | null) {
+    this.presenter = presenter;
+  }
+
+  /**
+   * Request an OS permission on behalf of a Mini App
+   */
+  async request(appName: string, permission: string): Promise<boolean> {
+    await this.hydrate();
+
+    const remembered = this.grants[appName]?.[permission]?.decision;
+    if (remembered === 'deny') {
+      console.log(`[PermissionBroker] ${appName} denied ${permission} (remembered)`);
+      return false;
+    }
+
+    if (remembered !== 'allow') {
+      const decision = await this.askConsent(appName, permission);
+      await this.setDecision(appName, permission, decision);
+      if (decision === 'deny') {
+        return false;
+      }
+    }
+
+    const granted = await native.permissions.request(permission);
+    console.log(`[PermissionBroker] ${appName} ${granted ? '✓ granted' : 'not granted by OS'} ${permission}`);
+    return granted;
+  }
+
+  /**
+   * Check a permission without prompting
+   */
+  async check(appName: string, permission: string): Promise<boolean> {
+    await this.hydrate();
+
+    if (this.grants[appName]?.[permission]?.decision !== 'allow') {
+      return false;
+    }
+    return native.permissions.check(permission);
+  }
+
+  /**
+   * All remembered decisions, for the settings screen
+   */
+  async getGrants(): Promise<PermissionGrant[]> {
+    await this.hydrate();
+    return this.listGrants();
+  }
+
+  /**
+   * Forget a decision so the Mini App has to ask again
+   */
+  async revoke(appName: string, permission: string): Promise<void> {
+    await this.hydrate();
+
+    if (!this.grants[appName]?.[permission]) return;
+
+    delete this.grants[appName][permission];
+    if (Object.keys(this.grants[appName]).length === 0) {
+      delete this.grants[appName];
+    }
+    console.log(`[PermissionBroker] Revoked ${permission} for ${appName}`);
+    await this.persist();
+  }
+
+  /**
+   * Subscribe to grant changes
+   */
+  subscribe(listener: GrantsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private askConsent(appName: string, permission: string): Promise<GrantDecision> {
+    const presenter = this.presenter;
+    if (!presenter) {
+      console.warn('[PermissionBroker] No consent UI registered, denying request');
+      return Promise.resolve('deny');
+    }
+
+    const result = this.consentQueue.then(() => presenter({ appName, permission }));
+    this.consentQueue = result.catch(() => undefined);
+    return result.catch(() => 'deny' as const);
+  }
+
+  private async setDecision(
+    appName: string,
+    permission: string,
+    decision: GrantDecision
+  ): Promise<void> {
+    this.grants[appName] = {
+      ...this.grants[appName],
+      [permission]: { appName, permission, decision, updatedAt: Date.now() },
+    };
+    await this.persist();
+  }
+
+  private listGrants(): PermissionGrant[] {
+    return Object.values(this.grants).flatMap(appGrants => Object.values(appGrants));
+  }
+
+  private async hydrate(): Promise<void> {
+    if (this.hydrated) return;
+
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.grants = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.error('[PermissionBroker] Failed to load grants:', error);
+    } finally {
+      this.hydrated = true;
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const grants = this.listGrants();
+    this.listeners.forEach(listener => listener(grants));
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.grants));
+    } catch (error) {
+      console.error('[PermissionBroker] Failed to save grants:', error);
+    }
+  }
+}
+
+export const permissionBroker = new PermissionBroker();
@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Modal, View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { getRemotes } from "../federation/remotes.config";
+import { permissionBroker } from "./PermissionBroker";
+import type { ConsentRequest, GrantDecision } from "./PermissionBroker";
+
+/**
+ * Permission Consent Sheet
+ * Host-rendered prompt shown when a Mini App requests an OS permission.
+ * Mini Apps cannot draw over or dismiss it.
+ */
+
+const PERMISSION_LABELS: Record<string, string> = {
+  camera: "your camera",
+  location: "your location",
+};
+
+/**
+ * Display name of a Mini App for host UI
+ */
+export const getMiniAppDisplayName = (appName: string): string =>
+  getRemotes()[appName]?.display?.name ?? appName;
+
+export const getPermissionLabel = (permission: string): string =>
+  PERMISSION_LABELS[permission] ?? permission;
+
+export const PermissionConsentSheet: React.FC = () => {
+  const [request, setRequest] = useState<ConsentRequest | null>(null);
+  const resolveRef = useRef<((decision: GrantDecision) => void) | null>(null);
+
+  useEffect(() => {
+    permissionBroker.setConsentPresenter(
+      (next) =>
+        new Promise<GrantDecision>((resolve) => {
+          resolveRef.current = resolve;
+          setRequest(next);
+        })
+    );
+
+    return () => {
+      permissionBroker.setConsentPresenter(null);
+      resolveRef.current?.("deny");
+    };
+  }, []);
+
+  const decide = (decision: GrantDecision) => {
+    resolveRef.current?.(decision);
+    resolveRef.current = null;
+    setRequest(null);
+  };
+
+  return (
+    <Modal
+      visible={!!request}
+      transparent
+      animationType="slide"
+      onRequestClose={() => decide("deny")}
+    >
+      <View style={styles.backdrop}>
+        {request && (
+          <View style={styles.sheet}>
+            <Text style={styles.title}>
+              Allow "{getMiniAppDisplayName(request.appName)}" to access{" "}
+              {getPermissionLabel(request.permission)}?
+            </Text>
+            <Text style={styles.subtitle}>
+              You can change this later in Mini App Permissions.
+            </Text>
+
+            <TouchableOpacity
+              style={[styles.button, styles.primaryButton]}
+              onPress={() => decide("allow")}
+            >
+              <Text style={styles.primaryText}>Allow</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={() => decide("ask")}
+            >
+              <Text style={styles.buttonText}>Allow this time, ask every time</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={() => decide("deny")}
+            >
+              <Text style={[styles.buttonText, styles.denyText]}>Don't Allow</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+  },
+  sheet: {
+    backgroundColor: "#FFFFFF",
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 24,
+    paddingBottom: 40,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#212529",
+    textAlign: "center",
+  },
+  subtitle: {
+    fontSize: 14,
+    color: "#6C757D",
+    textAlign: "center",
+    marginTop: 8,
+    marginBottom: 20,
+  },
+  button: {
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 8,
+    backgroundColor: "#F8F9FA",
+  },
+  primaryButton: {
+    backgroundColor: "#007AFF",
+  },
+  primaryText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  buttonText: {
+    color: "#212529",
+    fontSize: 16,
+  },
+  denyText: {
+    color: "#FF6B6B",
+  },
+});
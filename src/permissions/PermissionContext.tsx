@@ -9,7 +9,8 @@ interface PermissionContextType {
   canAccessMiniApp: (
     appName: string,
     requiredPermissions?: string[],
-    requiredRole?: string
+    requiredRole?: string,
+    requiresVerifiedEmail?: boolean
   ) => boolean;
 }
 
@@ -49,7 +50,8 @@ export const PermissionProvider: React.FC<{ children: ReactNode }> = ({
   const canAccessMiniApp = (
     appName: string,
     requiredPermissions?: string[],
-    requiredRole?: string
+    requiredRole?: string,
+    requiresVerifiedEmail?: boolean
   ): boolean => {
     if (!userInfo) return false;
 
@@ -61,6 +63,11 @@ export const PermissionProvider: React.FC<{ children: ReactNode }> = ({
       return false;
     }
 
+    // Check email verification requirement
+    if (requiresVerifiedEmail && !userInfo.emailVerified) {
+      return false;
+    }
+
     // Check permission requirements
     if (requiredPermissions && requiredPermissions.length > 0) {
       return hasAllPermissions(requiredPermissions);
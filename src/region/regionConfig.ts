@@ -5,6 +5,8 @@
 
 export type Region = 'global' | 'asia' | 'europe' | 'americas';
 
+export const DEFAULT_API_BASE_URL = 'https://super-app-case.web.app/api';
+
 export interface RegionConfig {
   id: Region;
   name: string;
@@ -12,6 +14,8 @@ export interface RegionConfig {
   enabledMiniApps: string[];
   locale: string;
   timezone: string;
+  // Backend serving this region, the default backend when not set
+  apiBaseUrl?: string;
 }
 
 export const REGION_CONFIGS: Record<Region, RegionConfig> = {
@@ -22,6 +26,7 @@ export const REGION_CONFIGS: Record<Region, RegionConfig> = {
     enabledMiniApps: ['all'],
     locale: 'en-US',
     timezone: 'UTC',
+    apiBaseUrl: DEFAULT_API_BASE_URL,
   },
   asia: {
     id: 'asia',
@@ -67,6 +72,17 @@ export const detectRegion = (): Region => {
   }
 };
 
+/**
+ * Resolve the backend for a region, a tenant's own backend takes precedence
+ */
+export const getApiBaseUrl = (
+  region: string,
+  tenantApiBaseUrl?: string
+): string => {
+  if (tenantApiBaseUrl) return tenantApiBaseUrl;
+  return REGION_CONFIGS[region as Region]?.apiBaseUrl ?? DEFAULT_API_BASE_URL;
+};
+
 /**
  * Check if a feature is enabled in a region
  */
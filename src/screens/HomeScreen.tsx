@@ -1,4 +1,4 @@
-import React, { useMemo } from "react";
+import React, { useEffect, useMemo } from "react";
 import {
   View,
   Text,
@@ -13,11 +13,20 @@ import type { RootStackParamList } from "../navigation/types";
 import { useAuth } from "../auth/AuthContext";
 import { usePermissions } from "../permissions/PermissionContext";
 import { useFeatureFlags } from "../features/FeatureFlagContext";
-import { REMOTES } from "../federation/remotes.config";
+import { useRemoteManifest } from "../federation/RemoteManifestContext";
+import { bundleCache } from "../federation/BundleCache";
 
 type Props = NativeStackScreenProps<RootStackParamList, "Home">;
 
-const MINI_APPS = [
+interface MiniAppListItem {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  color: string;
+}
+
+const MINI_APPS: MiniAppListItem[] = [
   {
     id: "ChatApp",
     name: "💬 Chat App",
@@ -42,14 +51,31 @@ const MINI_APPS = [
 ];
 
 export const HomeScreen: React.FC<Props> = ({ navigation }) => {
-  const { userInfo, logout, deleteAccount } = useAuth();
+  const { userInfo, accounts, logout, deleteAccount, switchAccount } =
+    useAuth();
   const { canAccessMiniApp } = usePermissions();
   const { isFeatureEnabled } = useFeatureFlags();
+  const { remotes } = useRemoteManifest();
+
+  // Mini Apps published in the manifest, with built-in presentation as fallback
+  const miniApps = useMemo(() => {
+    return Object.keys(remotes).map((appId): MiniAppListItem => {
+      const builtIn = MINI_APPS.find((app) => app.id === appId);
+      const display = remotes[appId].display;
+      return {
+        id: appId,
+        name: display?.name ?? builtIn?.name ?? appId,
+        description: display?.description ?? builtIn?.description ?? "",
+        icon: display?.icon ?? builtIn?.icon ?? "📦",
+        color: display?.color ?? builtIn?.color ?? "#ADB5BD",
+      };
+    });
+  }, [remotes]);
 
   // Filter Mini Apps based on permissions and feature flags
   const availableMiniApps = useMemo(() => {
-    return MINI_APPS.filter((app) => {
-      const config = REMOTES[app.id];
+    return miniApps.filter((app) => {
+      const config = remotes[app.id];
       if (!config) return false;
       // Check feature flag
       if (config.featureFlag && !isFeatureEnabled(config.featureFlag as any)) {
@@ -60,10 +86,18 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
       return canAccessMiniApp(
         app.id,
         config.requiredPermissions,
-        config.requiredRole
+        config.requiredRole,
+        config.requiresVerifiedEmail
       );
     });
-  }, [canAccessMiniApp, isFeatureEnabled]);
+  }, [miniApps, remotes, canAccessMiniApp, isFeatureEnabled]);
+
+  // Warm the bundle cache so accessible Mini Apps open instantly and offline
+  const availableMiniAppIds = availableMiniApps.map((app) => app.id).join(",");
+  useEffect(() => {
+    if (__DEV__ || !availableMiniAppIds) return;
+    bundleCache.prefetch(availableMiniAppIds.split(","));
+  }, [availableMiniAppIds]);
 
   const handleMiniAppPress = (appName: string) => {
     navigation.navigate("MiniApp", { appName });
@@ -73,6 +107,18 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
     await logout();
   };
 
+  const otherAccounts = accounts.filter(
+    (account) => account.uid !== userInfo?.uid
+  );
+
+  const handleSwitchAccount = async (uid: string) => {
+    try {
+      await switchAccount(uid);
+    } catch (error) {
+      console.error("Switch account error:", error);
+    }
+  };
+
   const handleDeleteAccount = () => {
     Alert.alert(
       "Delete Account",
@@ -171,6 +217,48 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
           </View>
         </View>
 
+        {/* Email Verification */}
+        {userInfo && !userInfo.emailVerified && (
+          <TouchableOpacity
+            style={styles.verifyBanner}
+            onPress={() => navigation.navigate("VerifyEmail")}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.verifyTitle}>✉️ Verify your email</Text>
+            <Text style={styles.verifyText}>
+              Some Mini Apps are only available once you confirm{" "}
+              {userInfo.email}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Account Switcher */}
+        <View style={styles.accountsCard}>
+          {otherAccounts.map((account) => (
+            <TouchableOpacity
+              key={account.uid}
+              style={styles.accountRow}
+              onPress={() => handleSwitchAccount(account.uid)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.appInfo}>
+                <Text style={styles.accountName}>
+                  {account.displayName || "User"}
+                </Text>
+                <Text style={styles.appDescription}>{account.email}</Text>
+              </View>
+              <Text style={styles.switchText}>Switch</Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={styles.accountRow}
+            onPress={() => navigation.navigate("AddAccount")}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.addAccountText}>＋ Add another account</Text>
+          </TouchableOpacity>
+        </View>
+
         <Text style={styles.sectionTitle}>
           Available Mini Apps ({availableMiniApps.length})
         </Text>
@@ -199,6 +287,24 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
           ))
         )}
 
+        <TouchableOpacity
+          style={styles.settingsCard}
+          onPress={() => navigation.navigate("PermissionSettings")}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.appName}>🔐 Mini App Permissions</Text>
+          <Text style={styles.arrow}>›</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.settingsCard}
+          onPress={() => navigation.navigate("Sessions")}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.appName}>📱 Devices & Sessions</Text>
+          <Text style={styles.arrow}>›</Text>
+        </TouchableOpacity>
+
         <View style={styles.infoCard}>
           <Text style={styles.infoTitle}>ℹ️ About</Text>
           <Text style={styles.infoText}>
@@ -351,6 +457,56 @@ const styles = StyleSheet.create({
     fontSize: 24,
     color: "#CED4DA",
   },
+  accountsCard: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 20,
+  },
+  accountRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+  },
+  accountName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#212529",
+  },
+  switchText: {
+    color: "#007AFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  addAccountText: {
+    color: "#007AFF",
+    fontSize: 15,
+  },
+  verifyBanner: {
+    backgroundColor: "#FFF3CD",
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  verifyTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#856404",
+    marginBottom: 4,
+  },
+  verifyText: {
+    fontSize: 14,
+    color: "#856404",
+  },
+  settingsCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "#FFFFFF",
+    padding: 16,
+    borderRadius: 12,
+    marginTop: 12,
+  },
   infoCard: {
     backgroundColor: "#E7F5FF",
     padding: 16,
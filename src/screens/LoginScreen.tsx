@@ -11,11 +11,13 @@ import {
 } from "react-native";
 import { useForm, Controller } from "react-hook-form";
 import CheckBox from "@react-native-community/checkbox";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useAuth } from "../auth/AuthContext";
+import { SecureStorage } from "../auth/SecureStorage";
+import { useTenant } from "../tenant/TenantContext";
+import type { IdentityProviderConfig } from "../tenant/TenantContext";
 import type { NativeStackScreenProps } from "@react-navigation/native-stack";
 
-type Props = NativeStackScreenProps<any, "Login">;
+type Props = NativeStackScreenProps<any, "Login" | "AddAccount">;
 
 interface LoginFormData {
   email: string;
@@ -23,62 +25,13 @@ interface LoginFormData {
   rememberMe: boolean;
 }
 
-const STORAGE_KEYS = {
-  SAVED_EMAIL: "@saved_email",
-  SAVED_PASSWORD: "@saved_password",
-  REMEMBER_ME: "@remember_me",
-};
-
-// Simple base64 encode/decode
-const base64Encode = (str: string): string => {
-  const chars =
-    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/=";
-  let result = "";
-  let i = 0;
-
-  while (i < str.length) {
-    const a = str.charCodeAt(i++);
-    const b = i < str.length ? str.charCodeAt(i++) : Number.NaN;
-    const c = i < str.length ? str.charCodeAt(i++) : Number.NaN;
-
-    const bitmap = (a << 16) | (b << 8) | c;
-
-    result += chars.charAt((bitmap >> 18) & 63);
-    result += chars.charAt((bitmap >> 12) & 63);
-    result += chars.charAt(isNaN(b) ? 64 : (bitmap >> 6) & 63);
-    result += chars.charAt(isNaN(c) ? 64 : bitmap & 63);
-  }
-
-  return result;
-};
-
-const base64Decode = (str: string): string => {
-  const chars =
-    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/=";
-  let result = "";
-  let i = 0;
-
-  str = str.replace(/[^A-Za-z0-9+/=]/g, "");
-
-  while (i < str.length) {
-    const enc1 = chars.indexOf(str.charAt(i++));
-    const enc2 = chars.indexOf(str.charAt(i++));
-    const enc3 = chars.indexOf(str.charAt(i++));
-    const enc4 = chars.indexOf(str.charAt(i++));
-
-    const bitmap = (enc1 << 18) | (enc2 << 12) | (enc3 << 6) | enc4;
-
-    result += String.fromCharCode((bitmap >> 16) & 255);
-    if (enc3 !== 64) result += String.fromCharCode((bitmap >> 8) & 255);
-    if (enc4 !== 64) result += String.fromCharCode(bitmap & 255);
-  }
-
-  return result;
-};
-
-export const LoginScreen: React.FC<Props> = ({ navigation }) => {
-  const { login } = useAuth();
+export const LoginScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { login, loginWithProvider } = useAuth();
+  const { currentTenant } = useTenant();
+  const identityProviders = currentTenant?.config.identityProviders ?? [];
   const [isLoading, setIsLoading] = React.useState(false);
+  // Signing in to another account while already signed in
+  const isAddingAccount = route.name === "AddAccount";
 
   const {
     control,
@@ -94,55 +47,31 @@ export const LoginScreen: React.FC<Props> = ({ navigation }) => {
   });
 
   useEffect(() => {
-    loadSavedCredentials();
+    if (!isAddingAccount) {
+      loadSavedCredentials();
+    }
   }, []);
 
   const loadSavedCredentials = async () => {
     try {
-      const [savedEmail, savedPassword, savedRememberMe] = await Promise.all([
-        AsyncStorage.getItem(STORAGE_KEYS.SAVED_EMAIL),
-        AsyncStorage.getItem(STORAGE_KEYS.SAVED_PASSWORD),
-        AsyncStorage.getItem(STORAGE_KEYS.REMEMBER_ME),
-      ]);
+      const savedEmail = await SecureStorage.getRememberedEmail();
 
-      if (savedRememberMe === "true" && savedEmail) {
+      if (savedEmail) {
         setValue("email", savedEmail);
         setValue("rememberMe", true);
-
-        if (savedPassword) {
-          try {
-            // Decode from base64
-            const decoded = base64Decode(savedPassword);
-            if (decoded) {
-              setValue("password", decoded);
-            }
-          } catch (error) {
-            console.error("Failed to decode password:", error);
-          }
-        }
       }
     } catch (error) {
       console.error("Failed to load saved credentials:", error);
     }
   };
 
+  // Only the email is remembered - the password never leaves the form
   const saveCredentials = async (data: LoginFormData) => {
     try {
       if (data.rememberMe) {
-        // Encode password to base64 (obfuscation, not encryption)
-        const encodedPassword = base64Encode(data.password);
-
-        await Promise.all([
-          AsyncStorage.setItem(STORAGE_KEYS.SAVED_EMAIL, data.email),
-          AsyncStorage.setItem(STORAGE_KEYS.SAVED_PASSWORD, encodedPassword),
-          AsyncStorage.setItem(STORAGE_KEYS.REMEMBER_ME, "true"),
-        ]);
+        await SecureStorage.saveRememberedEmail(data.email);
       } else {
-        await Promise.all([
-          AsyncStorage.removeItem(STORAGE_KEYS.SAVED_EMAIL),
-          AsyncStorage.removeItem(STORAGE_KEYS.SAVED_PASSWORD),
-          AsyncStorage.removeItem(STORAGE_KEYS.REMEMBER_ME),
-        ]);
+        await SecureStorage.clearRememberedEmail();
       }
     } catch (error) {
       console.error("Failed to save credentials:", error);
@@ -153,7 +82,11 @@ export const LoginScreen: React.FC<Props> = ({ navigation }) => {
     setIsLoading(true);
     try {
       await login(data.email, data.password);
-      await saveCredentials(data);
+      if (isAddingAccount) {
+        navigation.goBack();
+      } else {
+        await saveCredentials(data);
+      }
     } catch (error) {
       console.error("Login error:", error);
     } finally {
@@ -161,6 +94,20 @@ export const LoginScreen: React.FC<Props> = ({ navigation }) => {
     }
   };
 
+  const onProviderPress = async (provider: IdentityProviderConfig) => {
+    setIsLoading(true);
+    try {
+      await loginWithProvider(provider);
+      if (isAddingAccount) {
+        navigation.goBack();
+      }
+    } catch (error) {
+      console.error("Provider login error:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   return (
     <KeyboardAvoidingView
       style={styles.container}
@@ -168,7 +115,9 @@ export const LoginScreen: React.FC<Props> = ({ navigation }) => {
     >
       <View style={styles.content}>
         <Text style={styles.title}>Super App</Text>
-        <Text style={styles.subtitle}>Sign in to continue</Text>
+        <Text style={styles.subtitle}>
+          {isAddingAccount ? "Sign in to another account" : "Sign in to continue"}
+        </Text>
 
         <View style={styles.form}>
           <Controller
@@ -226,20 +175,22 @@ export const LoginScreen: React.FC<Props> = ({ navigation }) => {
             )}
           />
 
-          <Controller
-            control={control}
-            name="rememberMe"
-            render={({ field: { onChange, value } }) => (
-              <View style={styles.rememberMeContainer}>
-                <CheckBox
-                  value={value}
-                  onValueChange={onChange}
-                  disabled={isLoading}
-                />
-                <Text style={styles.rememberMeText}>Remember Me</Text>
-              </View>
-            )}
-          />
+          {!isAddingAccount && (
+            <Controller
+              control={control}
+              name="rememberMe"
+              render={({ field: { onChange, value } }) => (
+                <View style={styles.rememberMeContainer}>
+                  <CheckBox
+                    value={value}
+                    onValueChange={onChange}
+                    disabled={isLoading}
+                  />
+                  <Text style={styles.rememberMeText}>Remember Me</Text>
+                </View>
+              )}
+            />
+          )}
 
           <TouchableOpacity
             style={[styles.button, isLoading && styles.buttonDisabled]}
@@ -253,16 +204,48 @@ export const LoginScreen: React.FC<Props> = ({ navigation }) => {
             )}
           </TouchableOpacity>
 
-          <TouchableOpacity
-            style={styles.linkButton}
-            onPress={() => navigation.navigate("Register")}
-            disabled={isLoading}
-          >
-            <Text style={styles.linkText}>
-              Don't have an account?{" "}
-              <Text style={styles.linkTextBold}>Sign Up</Text>
-            </Text>
-          </TouchableOpacity>
+          {identityProviders.length > 0 && (
+            <Text style={styles.dividerText}>or</Text>
+          )}
+
+          {identityProviders.map((provider) => (
+            <TouchableOpacity
+              key={provider.id}
+              style={[
+                styles.providerButton,
+                isLoading && styles.buttonDisabled,
+              ]}
+              onPress={() => onProviderPress(provider)}
+              disabled={isLoading}
+            >
+              <Text style={styles.providerButtonText}>
+                Continue with {provider.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          {!isAddingAccount && (
+            <TouchableOpacity
+              style={styles.linkButton}
+              onPress={() => navigation.navigate("Register")}
+              disabled={isLoading}
+            >
+              <Text style={styles.linkText}>
+                Don't have an account?{" "}
+                <Text style={styles.linkTextBold}>Sign Up</Text>
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {!isAddingAccount && (
+            <TouchableOpacity
+              style={styles.linkButton}
+              onPress={() => navigation.navigate("ForgotPassword")}
+              disabled={isLoading}
+            >
+              <Text style={styles.linkTextBold}>Forgot password?</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
     </KeyboardAvoidingView>
@@ -329,6 +312,26 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "600",
   },
+  dividerText: {
+    color: "#999",
+    fontSize: 14,
+    textAlign: "center",
+    marginVertical: 12,
+  },
+  providerButton: {
+    backgroundColor: "#fff",
+    borderRadius: 8,
+    padding: 16,
+    alignItems: "center",
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: "#ddd",
+  },
+  providerButtonText: {
+    color: "#333",
+    fontSize: 16,
+    fontWeight: "600",
+  },
   linkButton: {
     marginTop: 16,
     alignItems: "center",
@@ -1,16 +1,51 @@
 import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
 import type { NativeStackScreenProps } from "@react-navigation/native-stack";
 import type { RootStackParamList } from "../navigation/types";
-import { RemoteLoader } from "../federation/RemoteLoader";
-import { useAuth } from "../auth/AuthContext";
+import { useAppLock } from "../auth/AppLockContext";
+import { usePermissions } from "../permissions/PermissionContext";
+import { useFeatureFlags } from "../features/FeatureFlagContext";
+import { useRemoteManifest } from "../federation/RemoteManifestContext";
 import { miniAppLifecycleManager } from "../federation/MiniAppLifecycleManager";
-import { useFocusEffect } from "@react-navigation/native";
+import { miniAppKeepAlivePool } from "../federation/MiniAppKeepAlivePool";
+import { useFocusEffect, useIsFocused } from "@react-navigation/native";
 
 type Props = NativeStackScreenProps<RootStackParamList, "MiniApp">;
 
-export const MiniAppScreen: React.FC<Props> = ({ route }) => {
+export const MiniAppScreen: React.FC<Props> = ({ navigation, route }) => {
   const { appName } = route.params;
-  const { userToken, userInfo } = useAuth();
+  const { isSensitiveMiniApp, verifyDeviceOwner } = useAppLock();
+  const { canAccessMiniApp } = usePermissions();
+  const { isFeatureEnabled } = useFeatureFlags();
+  const { remotes } = useRemoteManifest();
+  const [isVerified, setIsVerified] = React.useState(
+    () => !isSensitiveMiniApp(appName)
+  );
+
+  // Deep links can open any Mini App, so check access the same way HomeScreen does
+  const config = remotes[appName];
+  const canAccess =
+    !!config &&
+    (!config.featureFlag || isFeatureEnabled(config.featureFlag as any)) &&
+    canAccessMiniApp(
+      appName,
+      config.requiredPermissions,
+      config.requiredRole,
+      config.requiresVerifiedEmail
+    );
+
+  // Sensitive Mini Apps need a fresh device owner check every time they open
+  const verify = React.useCallback(async () => {
+    setIsVerified(await verifyDeviceOwner(`Open ${appName}`));
+  }, [appName, verifyDeviceOwner]);
+
+  // Ask once when the screen opens, later attempts go through the Unlock button
+  const hasPrompted = React.useRef(false);
+  React.useEffect(() => {
+    if (!canAccess || isVerified || hasPrompted.current) return;
+    hasPrompted.current = true;
+    verify();
+  }, [canAccess, isVerified, verify]);
 
   // Notify lifecycle manager when screen gains/loses focus
   useFocusEffect(
@@ -23,38 +58,111 @@ export const MiniAppScreen: React.FC<Props> = ({ route }) => {
     }, [appName])
   );
 
-  // Memoize props for stability
-  const miniAppUserInfo = React.useMemo(
-    () => ({
-      uid: userInfo?.uid || "",
-      email: userInfo?.email || "",
-      displayName: userInfo?.displayName || "",
-      photoURL: userInfo?.photoURL,
-      role: userInfo?.role || "guest",
-      permissions: userInfo?.permissions || [],
-    }),
-    [userInfo]
-  );
+  // The keep-alive host draws above the navigator and cannot slide with this screen,
+  // so the Mini App is hidden while the screen is pushed, popped or swiped back
+  const isFocused = useIsFocused();
+  const [isTransitioning, setIsTransitioning] = React.useState(true);
+
+  React.useEffect(() => {
+    const unsubscribers = [
+      navigation.addListener("transitionStart", () => setIsTransitioning(true)),
+      navigation.addListener("transitionEnd", () => setIsTransitioning(false)),
+      navigation.addListener("gestureCancel", () => setIsTransitioning(false)),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [navigation]);
+
+  // The Mini App is rendered by the keep-alive host, this screen only shows it
+  const isShown = canAccess && isVerified && isFocused && !isTransitioning;
+  React.useEffect(() => {
+    if (!isShown) return;
+    miniAppKeepAlivePool.open(appName);
 
-  // Create lifecycle callbacks
-  const lifecycleCallbacks = React.useMemo(
-    () => ({
-      onFocus: () => console.log(`[${appName}] Focus callback`),
-      onBlur: () => console.log(`[${appName}] Blur callback`),
-      onBackground: () => console.log(`[${appName}] Background callback`),
-      onForeground: () => console.log(`[${appName}] Foreground callback`),
-    }),
-    [appName]
+    return () => {
+      miniAppKeepAlivePool.close(appName);
+    };
+  }, [appName, isShown]);
+
+  // Going back or replacing the screen, while the Mini App can still save its state
+  React.useEffect(
+    () =>
+      navigation.addListener("beforeRemove", () => {
+        miniAppLifecycleManager.onMiniAppBeforeExit(appName);
+      }),
+    [navigation, appName]
   );
 
+  // Lay the Mini App over this screen, measured again once it stopped sliding in
+  const placeholderRef = React.useRef<View>(null);
+  const measureFrame = React.useCallback(() => {
+    placeholderRef.current?.measureInWindow((x, y, width, height) => {
+      if (width > 0 && height > 0) {
+        miniAppKeepAlivePool.setFrame({ x, y, width, height });
+      }
+    });
+  }, []);
+
+  React.useEffect(() => {
+    if (isShown) measureFrame();
+  }, [isShown, measureFrame]);
+
+  if (!canAccess) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>🚫 You don't have access to {appName}</Text>
+        <TouchableOpacity style={styles.button} onPress={() => navigation.goBack()}>
+          <Text style={styles.buttonText}>Go Back</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (!isVerified) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>🔒 {appName} is protected</Text>
+        <TouchableOpacity style={styles.button} onPress={verify}>
+          <Text style={styles.buttonText}>Unlock</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
   return (
-    <RemoteLoader
-      appName={appName}
-      userToken={userToken || ""}
-      userInfo={miniAppUserInfo}
-      theme="light"
-      language="vi"
-      {...lifecycleCallbacks}
+    <View
+      ref={placeholderRef}
+      style={styles.placeholder}
+      onLayout={measureFrame}
+      collapsable={false}
     />
   );
 };
+
+const styles = StyleSheet.create({
+  placeholder: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#212529",
+    marginBottom: 20,
+  },
+  button: {
+    backgroundColor: "#007AFF",
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+} from "react-native";
+import type { NativeStackScreenProps } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../navigation/types";
+import { permissionBroker } from "../permissions/PermissionBroker";
+import type {
+  GrantDecision,
+  PermissionGrant,
+} from "../permissions/PermissionBroker";
+import {
+  getMiniAppDisplayName,
+  getPermissionLabel,
+} from "../permissions/PermissionConsentSheet";
+
+type Props = NativeStackScreenProps<RootStackParamList, "PermissionSettings">;
+
+const DECISION_LABELS: Record<GrantDecision, string> = {
+  allow: "Allowed",
+  deny: "Denied",
+  ask: "Ask every time",
+};
+
+export const PermissionSettingsScreen: React.FC<Props> = () => {
+  const [grants, setGrants] = useState<PermissionGrant[]>([]);
+
+  useEffect(() => {
+    permissionBroker.getGrants().then(setGrants);
+    return permissionBroker.subscribe(setGrants);
+  }, []);
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+    >
+      {grants.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyStateText}>
+            No Mini App has requested a permission yet
+          </Text>
+        </View>
+      ) : (
+        grants.map((grant) => (
+          <View
+            key={`${grant.appName}:${grant.permission}`}
+            style={styles.grantCard}
+          >
+            <View style={styles.grantInfo}>
+              <Text style={styles.appName}>
+                {getMiniAppDisplayName(grant.appName)}
+              </Text>
+              <Text style={styles.grantText}>
+                {getPermissionLabel(grant.permission)} ·{" "}
+                {DECISION_LABELS[grant.decision]}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={styles.revokeButton}
+              onPress={() =>
+                permissionBroker.revoke(grant.appName, grant.permission)
+              }
+            >
+              <Text style={styles.revokeText}>Revoke</Text>
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  contentContainer: {
+    padding: 20,
+  },
+  grantCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#FFFFFF",
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  grantInfo: {
+    flex: 1,
+  },
+  appName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#212529",
+  },
+  grantText: {
+    fontSize: 14,
+    color: "#6C757D",
+    marginTop: 2,
+  },
+  revokeButton: {
+    backgroundColor: "#FF6B6B",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  revokeText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  emptyState: {
+    backgroundColor: "#E7F5FF",
+    padding: 20,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: "#1971C2",
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,248 @@
+import React from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import Toast from "react-native-toast-message";
+import { useForm, Controller } from "react-hook-form";
+import { useAuth } from "../auth/AuthContext";
+import type { NativeStackScreenProps } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../navigation/types";
+
+type Props = NativeStackScreenProps<RootStackParamList, "ResetPassword">;
+
+interface ResetPasswordFormData {
+  password: string;
+  confirmPassword: string;
+}
+
+/**
+ * Opened from the reset link: superapp://reset-password?token=...
+ */
+export const ResetPasswordScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { isAuthenticated, resetPassword } = useAuth();
+  const [isLoading, setIsLoading] = React.useState(false);
+  const resetToken = route.params?.token;
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+    watch,
+  } = useForm<ResetPasswordFormData>({
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const password = watch("password");
+
+  const leave = () => {
+    navigation.navigate(isAuthenticated ? "Home" : "Login");
+  };
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    if (!resetToken) return;
+
+    setIsLoading(true);
+    try {
+      await resetPassword(resetToken, data.password);
+      Toast.show({
+        type: "success",
+        text1: "Password Changed",
+        text2: "Sign in with your new password.",
+        position: "top",
+      });
+      leave();
+    } catch (error) {
+      console.error("Reset password error:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+    >
+      <View style={styles.content}>
+        <Text style={styles.title}>New Password</Text>
+
+        {!resetToken ? (
+          <Text style={styles.subtitle}>
+            This reset link is invalid. Request a new one from the sign in
+            screen.
+          </Text>
+        ) : (
+          <>
+            <Text style={styles.subtitle}>Choose a new password</Text>
+
+            <View style={styles.form}>
+              <Controller
+                control={control}
+                name="password"
+                rules={{
+                  required: "Password is required",
+                  minLength: {
+                    value: 6,
+                    message: "Password must be at least 6 characters",
+                  },
+                }}
+                render={({ field: { onChange, onBlur, value } }) => (
+                  <>
+                    <TextInput
+                      style={[
+                        styles.input,
+                        errors.password && styles.inputError,
+                      ]}
+                      placeholder="New Password (min 6 characters)"
+                      value={value}
+                      onChangeText={onChange}
+                      onBlur={onBlur}
+                      secureTextEntry
+                      editable={!isLoading}
+                    />
+                    {errors.password && (
+                      <Text style={styles.errorText}>
+                        {errors.password.message}
+                      </Text>
+                    )}
+                  </>
+                )}
+              />
+
+              <Controller
+                control={control}
+                name="confirmPassword"
+                rules={{
+                  required: "Please confirm your password",
+                  validate: (value) =>
+                    value === password || "Passwords do not match",
+                }}
+                render={({ field: { onChange, onBlur, value } }) => (
+                  <>
+                    <TextInput
+                      style={[
+                        styles.input,
+                        errors.confirmPassword && styles.inputError,
+                      ]}
+                      placeholder="Confirm New Password"
+                      value={value}
+                      onChangeText={onChange}
+                      onBlur={onBlur}
+                      secureTextEntry
+                      editable={!isLoading}
+                    />
+                    {errors.confirmPassword && (
+                      <Text style={styles.errorText}>
+                        {errors.confirmPassword.message}
+                      </Text>
+                    )}
+                  </>
+                )}
+              />
+
+              <TouchableOpacity
+                style={[styles.button, isLoading && styles.buttonDisabled]}
+                onPress={handleSubmit(onSubmit)}
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.buttonText}>Change Password</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+
+        <TouchableOpacity
+          style={styles.linkButton}
+          onPress={leave}
+          disabled={isLoading}
+        >
+          <Text style={styles.linkTextBold}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  content: {
+    flex: 1,
+    justifyContent: "center",
+    padding: 20,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: "bold",
+    color: "#333",
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: "#666",
+    textAlign: "center",
+    marginBottom: 40,
+  },
+  form: {
+    marginBottom: 20,
+  },
+  input: {
+    backgroundColor: "#fff",
+    borderRadius: 8,
+    padding: 16,
+    fontSize: 16,
+    marginBottom: 4,
+    borderWidth: 1,
+    borderColor: "#ddd",
+  },
+  inputError: {
+    borderColor: "#FF6B6B",
+    borderWidth: 2,
+  },
+  errorText: {
+    color: "#FF6B6B",
+    fontSize: 12,
+    marginBottom: 12,
+    marginLeft: 4,
+  },
+  button: {
+    backgroundColor: "#007AFF",
+    borderRadius: 8,
+    padding: 16,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  linkButton: {
+    marginTop: 16,
+    alignItems: "center",
+  },
+  linkTextBold: {
+    color: "#007AFF",
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+} from "react-native";
+import type { NativeStackScreenProps } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../navigation/types";
+import { useAuth } from "../auth/AuthContext";
+import type { UserSession } from "../auth/userApi";
+
+type Props = NativeStackScreenProps<RootStackParamList, "Sessions">;
+
+const formatLastActive = (session: UserSession): string => {
+  if (session.current) return "Active now";
+  const date = new Date(session.lastActiveAt);
+  return isNaN(date.getTime())
+    ? "Last active: unknown"
+    : `Last active ${date.toLocaleString()}`;
+};
+
+/**
+ * Devices the user is signed in on, other ones can be signed out from here
+ */
+export const SessionsScreen: React.FC<Props> = () => {
+  const { getSessions, revokeSession, revokeOtherSessions } = useAuth();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadSessions = async () => {
+    try {
+      setSessions(await getSessions());
+    } catch (error) {
+      console.error("Load sessions error:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadSessions().finally(() => setIsLoading(false));
+  }, []);
+
+  const onRefresh = async () => {
+    setIsRefreshing(true);
+    await loadSessions();
+    setIsRefreshing(false);
+  };
+
+  const handleRevoke = (session: UserSession) => {
+    Alert.alert(
+      "Sign Out Device",
+      `Sign out of ${session.deviceName}? It will need to log in again.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Sign Out",
+          style: "destructive",
+          onPress: async () => {
+            setRevokingId(session.id);
+            try {
+              await revokeSession(session.id);
+              setSessions((current) =>
+                current.filter((item) => item.id !== session.id)
+              );
+            } catch (error) {
+              console.error("Revoke session error:", error);
+            } finally {
+              setRevokingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRevokeOthers = () => {
+    Alert.alert(
+      "Sign Out Other Devices",
+      "Every device except this one will need to log in again.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Sign Out All",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await revokeOtherSessions();
+              setSessions((current) => current.filter((item) => item.current));
+            } catch (error) {
+              console.error("Revoke other sessions error:", error);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      refreshControl={
+        <RefreshControl refreshing={isRefreshing} onRefresh={onRefresh} />
+      }
+    >
+      {sessions.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyStateText}>No active sessions found</Text>
+        </View>
+      ) : (
+        sessions.map((session) => (
+          <View key={session.id} style={styles.sessionCard}>
+            <View style={styles.sessionInfo}>
+              <Text style={styles.deviceName}>
+                {session.deviceName}
+                {session.current ? " · This device" : ""}
+              </Text>
+              <Text style={styles.sessionText}>
+                {[session.platform, session.location]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </Text>
+              <Text style={styles.sessionText}>
+                {formatLastActive(session)}
+              </Text>
+            </View>
+            {!session.current &&
+              (revokingId === session.id ? (
+                <ActivityIndicator color="#FF6B6B" />
+              ) : (
+                <TouchableOpacity
+                  style={styles.revokeButton}
+                  onPress={() => handleRevoke(session)}
+                >
+                  <Text style={styles.revokeText}>Sign Out</Text>
+                </TouchableOpacity>
+              ))}
+          </View>
+        ))
+      )}
+
+      {hasOtherSessions && (
+        <TouchableOpacity
+          style={styles.revokeAllButton}
+          onPress={handleRevokeOthers}
+        >
+          <Text style={styles.revokeAllText}>Sign out all other devices</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F8F9FA",
+  },
+  contentContainer: {
+    padding: 20,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#F8F9FA",
+  },
+  sessionCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#FFFFFF",
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  deviceName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#212529",
+  },
+  sessionText: {
+    fontSize: 14,
+    color: "#6C757D",
+    marginTop: 2,
+  },
+  revokeButton: {
+    backgroundColor: "#FF6B6B",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  revokeText: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  revokeAllButton: {
+    marginTop: 8,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#FF6B6B",
+    alignItems: "center",
+  },
+  revokeAllText: {
+    color: "#FF6B6B",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  emptyState: {
+    backgroundColor: "#E7F5FF",
+    padding: 20,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: "#1971C2",
+    textAlign: "center",
+  },
+});
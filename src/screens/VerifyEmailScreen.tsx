@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from "react-native";
+import type { NativeStackScreenProps } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../navigation/types";
+import { useAuth } from "../auth/AuthContext";
+
+type Props = NativeStackScreenProps<RootStackParamList, "VerifyEmail">;
+
+/**
+ * Opened from Home, or from the verification link: superapp://verify-email?token=...
+ */
+export const VerifyEmailScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { userInfo, sendVerificationEmail, verifyEmail, fetchProfile } =
+    useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+  const [emailSent, setEmailSent] = useState(false);
+  const verificationToken = route.params?.token;
+
+  // Confirm straight away when opened from the link
+  useEffect(() => {
+    if (!verificationToken || userInfo?.emailVerified) return;
+    run(() => verifyEmail(verificationToken));
+  }, [verificationToken]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsLoading(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Verify email error:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onResend = () =>
+    run(async () => {
+      await sendVerificationEmail();
+      setEmailSent(true);
+    });
+
+  if (userInfo?.emailVerified) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.icon}>✅</Text>
+        <Text style={styles.title}>Email verified</Text>
+        <Text style={styles.subtitle}>{userInfo.email}</Text>
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => navigation.navigate("Home")}
+        >
+          <Text style={styles.buttonText}>Continue</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.icon}>✉️</Text>
+      <Text style={styles.title}>Verify your email</Text>
+      <Text style={styles.subtitle}>
+        {emailSent
+          ? `We've sent a new link to ${userInfo?.email}.`
+          : `Open the link we sent to ${userInfo?.email} to unlock every Mini App.`}
+      </Text>
+
+      {isLoading ? (
+        <ActivityIndicator size="large" color="#007AFF" />
+      ) : (
+        <>
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => run(fetchProfile)}
+          >
+            <Text style={styles.buttonText}>I've verified my email</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.linkButton} onPress={onResend}>
+            <Text style={styles.linkText}>Resend email</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+    backgroundColor: "#F8F9FA",
+  },
+  icon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#212529",
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: "#6C757D",
+    textAlign: "center",
+    marginBottom: 32,
+  },
+  button: {
+    backgroundColor: "#007AFF",
+    paddingHorizontal: 32,
+    paddingVertical: 14,
+    borderRadius: 8,
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  linkButton: {
+    marginTop: 16,
+  },
+  linkText: {
+    color: "#007AFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -1,10 +1,50 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { api } from '../host-sdk/api';
+import { useRegion } from '../region/RegionContext';
+import { getApiBaseUrl, REGION_CONFIGS } from '../region/regionConfig';
+import { NativeAuthModule } from '../auth/NativeAuthModule';
 
 /**
  * Tenant Context
  * Manages multi-tenancy support for the Super App
  */
 
+/**
+ * Require biometrics or the device passcode to get back into the app
+ */
+export interface AppLockConfig {
+  enabled: boolean;
+  // Time out when returning from background after this long
+  idleTimeoutMs?: number;
+  // Also time out after this long in the foreground without a touch
+  inactivityTimeoutMs?: number;
+  // What a timeout does, 'lock' unless set
+  timeoutAction?: 'lock' | 'logout';
+  // Mini Apps that need a fresh check every time they are opened
+  sensitiveMiniApps?: string[];
+}
+
+/**
+ * OpenID Connect identity provider offered on the login screen,
+ * e.g. a social login or the tenant's own SSO
+ */
+export interface IdentityProviderConfig {
+  id: string;
+  // Button label, e.g. "Google" or "Acme SSO"
+  name: string;
+  issuer: string;
+  clientId: string;
+  // Must use the app's URL scheme, e.g. superapp://oauth/callback
+  redirectUri: string;
+  // Defaults to openid, email and profile
+  scopes?: string[];
+  // Discovered from the issuer when not set
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+  // Extra authorization request parameters, e.g. { prompt: 'select_account' }
+  additionalParameters?: Record<string, string>;
+}
+
 export interface Tenant {
   id: string;
   name: string;
@@ -14,6 +54,10 @@ export interface Tenant {
     theme?: 'light' | 'dark';
     language?: 'vi' | 'en';
     features?: string[];
+    appLock?: AppLockConfig;
+    identityProviders?: IdentityProviderConfig[];
+    // Tenant's own backend, otherwise the backend of its region
+    apiBaseUrl?: string;
   };
 }
 
@@ -25,6 +69,15 @@ interface TenantContextType {
 
 const TenantContext = createContext<TenantContextType | undefined>(undefined);
 
+// Local mock IdP (`npm run mock-idp`) for trying SSO in development
+const MOCK_IDENTITY_PROVIDER: IdentityProviderConfig = {
+  id: 'mock-idp',
+  name: 'Mock SSO',
+  issuer: 'http://localhost:9400',
+  clientId: 'super-app-dev',
+  redirectUri: 'superapp://oauth/callback',
+};
+
 // Default tenant for demo
 const DEFAULT_TENANT: Tenant = {
   id: 'default',
@@ -35,11 +88,33 @@ const DEFAULT_TENANT: Tenant = {
     theme: 'light',
     language: 'vi',
     features: ['all'],
+    appLock: {
+      enabled: false,
+      idleTimeoutMs: 5 * 60 * 1000,
+    },
+    identityProviders: __DEV__ ? [MOCK_IDENTITY_PROVIDER] : [],
   },
 };
 
 export const TenantProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [currentTenant, setCurrentTenant] = useState<Tenant>(DEFAULT_TENANT);
+  const { currentRegion } = useRegion();
+
+  // Tenants pinned to a region use its backend, 'global' ones follow the user's region
+  const apiRegion =
+    currentTenant.region in REGION_CONFIGS && currentTenant.region !== 'global'
+      ? currentTenant.region
+      : currentRegion;
+  const apiBaseUrl = getApiBaseUrl(apiRegion, currentTenant.config.apiBaseUrl);
+
+  useEffect(() => {
+    api.setBaseURL(apiBaseUrl);
+    // Login, signup and refresh run natively and need the same backend
+    NativeAuthModule.setApiBaseURL(apiBaseUrl).catch((error) =>
+      console.error('[TenantContext] Failed to set native API base URL:', error)
+    );
+    console.log('[TenantContext] API base URL:', apiBaseUrl);
+  }, [apiBaseUrl]);
 
   const setTenant = (tenant: Tenant) => {
     setCurrentTenant(tenant);